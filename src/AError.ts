@@ -1,6 +1,18 @@
 import { AReason } from "./AReason";
 
+/**
+ * A class (including abstract ones) whose instances are {@link AError}s.
+ */
+export type ErrorClass<T extends AError = AError> = abstract new (...args: any[]) => T;
+
+/**
+ * Selects errors either by class (including subclasses) or by predicate.
+ */
+export type ErrorMatcher<T extends AError = AError> = ErrorClass<T> | ((error: AError) => boolean);
+
 export abstract class AError extends AReason{
+    private _causes: AReason[] = [];
+
     /**
      *
      */
@@ -8,4 +20,56 @@ export abstract class AError extends AReason{
         super(message);
         
     }
-}
\ No newline at end of file
+
+    /** Immutable copy of the reasons recorded as the cause of this error. */
+    get causes(): AReason[] {
+        return this._causes.slice();
+    }
+
+    /**
+     * Records `cause` as (one of) the underlying cause(s) of this error, e.g. to nest an
+     * {@link ExceptionalError} or {@link PromiseRejection} under a higher-level domain error.
+     *
+     * @param cause A reason, or any thrown value – non-reasons are wrapped in an {@link ExceptionalError}.
+     *
+     * @returns **this** for chaining.
+     * @throws {Error}  If `cause` is this error or (transitively) caused by it, which would make the causal chain circular.
+     */
+    causedBy(cause: AReason | unknown): this {
+        if (cause instanceof AError && cause.isCausedBy(this)) {
+            throw new Error(`Error '${this.message}' cannot be caused by '${cause.message}', which is or is caused by it.`);
+        }
+        this._causes.push(cause instanceof AReason ? cause : new ExceptionalError(cause));
+        return this;
+    }
+
+    /**
+     * Copies this error, see {@link AReason.copy}; the copy shares the causes but records further ones on its own.
+     */
+    copy(): this {
+        const copy = super.copy();
+        copy._causes = this._causes.slice();
+        return copy;
+    }
+
+    /**
+     * Internal helper—`true` when `error` is this error or one of its (transitive) causes.
+     */
+    private isCausedBy(error: AError, visited = new Set<AError>()): boolean {
+        if (this === error) return true;
+        visited.add(this);
+        return this._causes.some(cause => cause instanceof AError && !visited.has(cause) && cause.isCausedBy(error, visited));
+    }
+}
+
+/**
+ * Normalises an {@link ErrorMatcher} into a predicate.
+ */
+export function toErrorPredicate<T extends AError>(matcher: ErrorMatcher<T>): (error: AError) => error is T {
+    return (matcher === AError || matcher.prototype instanceof AError
+        ? (error: AError) => error instanceof (matcher as ErrorClass<T>)
+        : matcher) as (error: AError) => error is T;
+}
+
+// Imported after AError is defined because ExceptionalError extends it.
+import { ExceptionalError } from "./ExceptionalError";
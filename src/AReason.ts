@@ -1,5 +1,6 @@
 export abstract class AReason {
     private _message: string;
+    private _metadata: Map<string, unknown> = new Map();
 
     /**
      *
@@ -11,4 +12,43 @@ export abstract class AReason {
     get message(): string {
         return this._message;
     }
-}
\ No newline at end of file
+
+    /** Immutable copy of the structured context attached via {@link withMetadata}. */
+    get metadata(): Record<string, unknown> {
+        return Object.fromEntries(this._metadata);
+    }
+
+    /**
+     * Attaches a piece of structured context (tenant id, HTTP status, SQL state…) to this reason.
+     * Setting an existing key overwrites its value.
+     *
+     * @returns **this** for chaining.
+     */
+    withMetadata(key: string, value: unknown): this {
+        this._metadata.set(key, value);
+        return this;
+    }
+
+    /**
+     * Copies this reason – same class, message and fields – with metadata of its own, so the copy can be tagged
+     * without touching this instance, e.g. when one reason is recorded for several items.
+     */
+    copy(): this {
+        const copy: this = Object.assign(Object.create(Object.getPrototypeOf(this)), this);
+        copy._metadata = new Map(this._metadata);
+        return copy;
+    }
+
+    /** `true` when a metadata entry exists for `key`. */
+    hasMetadata(key: string): boolean {
+        return this._metadata.has(key);
+    }
+
+    /**
+     * Reads a metadata entry, typed by the caller.
+     * @returns The stored value, or `undefined` when `key` is absent.
+     */
+    getMetadata<T = unknown>(key: string): T | undefined {
+        return this._metadata.get(key) as T | undefined;
+    }
+}
@@ -0,0 +1,11 @@
+import { AReason } from "./AReason";
+
+export abstract class AWarning extends AReason{
+    /**
+     *
+     */
+    constructor(message: string) {
+        super(message);
+        
+    }
+}
@@ -0,0 +1,345 @@
+import { AError, ErrorClass, ErrorMatcher } from './AError';
+import { ASuccess } from './ASuccess';
+import { AWarning } from './AWarning';
+import { FailurePolicy } from './FailurePolicy';
+import { Instrumentation } from './Instrumentation';
+import { AsyncContingency, AsyncStepError, BoundErrors, BoundValue, Contingency, RecoveredErrors, Result, WithBinding } from './Result';
+import { AsyncStepOptions, StepOptions } from './Step';
+import { AsyncValidationRule, ValidationRule } from './Validation';
+import { StandardSchema } from './Schema';
+import { ErrorMatch, MatchHandlers } from './ErrorMatch';
+import { ExceptionalError } from './ExceptionalError';
+import { PromiseRejection } from './PromiseRejection';
+import { ValidationError } from './ValidationError';
+import { SchemaIssueError } from './SchemaIssueError';
+import { CancelledError } from './CancelledError';
+import { TimeoutError } from './TimeoutError';
+import { CompensationFailedError } from './CompensationFailedError';
+
+/**
+ * `AsyncResult` is a promise of a pending {@link Result}.
+ *
+ * It is returned by every async entry point (`Result.tryAsync`, `bindAsync`, `okIfAsync`, `failIfAsync`)
+ * and exposes the same chaining surface as {@link Result}, so sync and async steps can be mixed freely
+ * without a `.then(result => result.xAsync(…))` ladder. Awaiting it yields the final `Result`.
+ * It is a `Promise<Result>` to existing code as well: it has `catch` and `finally`, and passes `instanceof Promise`.
+ *
+ */
+export class AsyncResult<TState = any, TError extends AError = AError> implements Promise<Result<TState, TError>> {
+
+    private _promise: Promise<Result<TState, TError>>;
+
+    /**
+     * @param promise A promise settling with the underlying {@link Result}.
+     */
+    constructor(promise: Promise<Result<TState, TError>>) {
+        this._promise = promise;
+    }
+
+    /**
+     * Lets `AsyncResult` be awaited (or chained with `.then`) to obtain the underlying {@link Result}.
+     */
+    public then<TResult1 = Result<TState, TError>, TResult2 = never>(
+        onfulfilled?: ((value: Result<TState, TError>) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null): Promise<TResult1 | TResult2> {
+        return this._promise.then(result => result.compensated).then(onfulfilled, onrejected);
+    }
+
+    /**
+     * Handles a rejection of the pending result, like `Promise.prototype.catch`.
+     */
+    public catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null): Promise<Result<TState, TError> | TResult> {
+        return this.then(undefined, onrejected);
+    }
+
+    /**
+     * Runs `onfinally` once the pending result settles either way, like `Promise.prototype.finally`.
+     */
+    public finally(onfinally?: (() => void) | null): Promise<Result<TState, TError>> {
+        return this.then().finally(onfinally);
+    }
+
+    /** `Promise`, so that `Object.prototype.toString` tells an `AsyncResult` apart from other objects as it does promises. */
+    public get [Symbol.toStringTag](): string {
+        return 'Promise';
+    }
+
+    /**
+     * Delegates to the pending result with `yield* result.yield()` inside {@link Result.genAsync}, evaluating to its state.
+     */
+    public async *yield(): AsyncGenerator<Result<TState, TError>, TState, unknown> {
+        return yield* (await this._promise).yield();
+    }
+
+    /**
+     * Chains a synchronous function once the pending result settles. See {@link Result.bind}.
+     */
+    public bind<TRet>(func: (() => TRet) | ((input: TState) => TRet), step?: string | StepOptions): AsyncResult<TRet, TError | ExceptionalError> {
+        return new AsyncResult(this._promise.then(result => result.bind(func, step)));
+    }
+
+    /**
+     * Chains a promise‑returning function once the pending result settles. See {@link Result.bindAsync}.
+     */
+    public bindAsync<TRet>(func: (() => Promise<TRet>) | ((input: TState, signal: AbortSignal) => Promise<TRet>), step?: string | AsyncStepOptions)
+        : AsyncResult<TRet, TError | AsyncStepError> {
+        return new AsyncResult(this._promise.then(result => result.bindAsync(func, step)));
+    }
+
+    /**
+     * Schema validation applied once the pending result settles. See {@link Result.bindParse}.
+     */
+    public bindParse<TRet>(schema: StandardSchema<unknown, TRet>, step?: string | StepOptions): AsyncResult<TRet, TError | SchemaIssueError | ExceptionalError> {
+        return new AsyncResult(this._promise.then(result => result.bindParse(schema, step)));
+    }
+
+    /**
+     * Async schema validation applied once the pending result settles. See {@link Result.bindParseAsync}.
+     */
+    public bindParseAsync<TRet>(schema: StandardSchema<unknown, TRet>, step?: string | AsyncStepOptions): AsyncResult<TRet, TError | SchemaIssueError | AsyncStepError> {
+        return new AsyncResult(this._promise.then(result => result.bindParseAsync(schema, step)));
+    }
+
+    /**
+     * Binds a named value once the pending result settles. See {@link Result.bindTo}.
+     */
+    public bindTo<K extends string, V>(key: K, func: (() => V) | ((context: TState) => V), step?: string | StepOptions)
+        : AsyncResult<WithBinding<TState, K, BoundValue<V>>, TError | BoundErrors<V> | ExceptionalError> {
+        return new AsyncResult(this._promise.then(result => result.bindTo(key, func, step)));
+    }
+
+    /**
+     * Binds an awaited named value once the pending result settles. See {@link Result.bindToAsync}.
+     */
+    public bindToAsync<K extends string, V>(key: K, func: (() => PromiseLike<V>) | ((context: TState, signal: AbortSignal) => PromiseLike<V>), step?: string | AsyncStepOptions)
+        : AsyncResult<WithBinding<TState, K, BoundValue<V>>, TError | BoundErrors<V> | AsyncStepError> {
+        return new AsyncResult(this._promise.then(result => result.bindToAsync(key, func, step)));
+    }
+
+    /**
+     * Binds a plain named value once the pending result settles. See {@link Result.let}.
+     */
+    public let<K extends string, V>(key: K, func: (() => V) | ((context: TState) => V), step?: string | StepOptions)
+        : AsyncResult<WithBinding<TState, K, V>, TError | ExceptionalError> {
+        return new AsyncResult(this._promise.then(result => result.let(key, func, step)));
+    }
+
+    /**
+     * Chains a compensated synchronous function once the pending result settles. See {@link Result.bindCompensated}.
+     */
+    public bindCompensated<TRet>(func: (() => TRet) | ((input: TState) => TRet), compensate: (output: TRet) => void, step?: string | StepOptions)
+        : AsyncResult<TRet, TError | ExceptionalError> {
+        return new AsyncResult(this._promise.then(result => result.bindCompensated(func, compensate, step)));
+    }
+
+    /**
+     * Chains a compensated promise‑returning function once the pending result settles. See {@link Result.bindCompensatedAsync}.
+     */
+    public bindCompensatedAsync<TRet>(func: (() => Promise<TRet>) | ((input: TState, signal: AbortSignal) => Promise<TRet>),
+        compensate: (output: TRet) => void | PromiseLike<void>, step?: string | AsyncStepOptions): AsyncResult<TRet, TError | AsyncStepError> {
+        return new AsyncResult(this._promise.then(result => result.bindCompensatedAsync(func, compensate, step)));
+    }
+
+    /**
+     * Runs the registered compensations once the pending result settles. See {@link Result.compensate}.
+     */
+    public compensate(): AsyncResult<TState, TError | CompensationFailedError> {
+        return new AsyncResult(this._promise.then(result => result.compensate()));
+    }
+
+    /**
+     * Switches to automatic compensation once the pending result settles. See {@link Result.withCompensationOnFailure}.
+     */
+    public withCompensationOnFailure(): AsyncResult<TState, TError | CompensationFailedError> {
+        return new AsyncResult(this._promise.then(result => result.withCompensationOnFailure()));
+    }
+
+    /**
+     * Synchronous guard applied once the pending result settles. See {@link Result.okIf}.
+     */
+    public okIf<E extends AError>(predicate: (() => boolean) | ((input: TState) => boolean), error: E, step?: string | StepOptions): AsyncResult<TState, TError | E | ExceptionalError> {
+        return new AsyncResult(this._promise.then(result => result.okIf(predicate, error, step)));
+    }
+
+    /**
+     * Async guard applied once the pending result settles. See {@link Result.okIfAsync}.
+     */
+    public okIfAsync<E extends AError>(predicate: (() => Promise<boolean>) | ((input: TState, signal: AbortSignal) => Promise<boolean>), error: E, step?: string | AsyncStepOptions)
+        : AsyncResult<TState, TError | E | AsyncStepError> {
+        return new AsyncResult(this._promise.then(result => result.okIfAsync(predicate, error, step)));
+    }
+
+    /**
+     * Synchronous failure trigger applied once the pending result settles. See {@link Result.failIf}.
+     */
+    public failIf<E extends AError>(predicate: (() => boolean) | ((input: TState) => boolean),
+        error: E,
+        contingency?: Contingency<TState>,
+        step?: string | StepOptions): AsyncResult<TState, TError | E | ExceptionalError> {
+        return new AsyncResult(this._promise.then(result => result.failIf(predicate, error, contingency, step)));
+    }
+
+    /**
+     * Async failure trigger applied once the pending result settles. See {@link Result.failIfAsync}.
+     */
+    public failIfAsync<E extends AError>(predicate: (() => Promise<boolean>) | ((input: TState, signal: AbortSignal) => Promise<boolean>),
+        error: E,
+        contingency?: AsyncContingency<TState>,
+        step?: string | AsyncStepOptions): AsyncResult<TState, TError | E | AsyncStepError> {
+        return new AsyncResult(this._promise.then(result => result.failIfAsync(predicate, error, contingency, step)));
+    }
+
+    /**
+     * Accumulating validation applied once the pending result settles. See {@link Result.validate}.
+     */
+    public validate(rules: ValidationRule<TState>[], step?: string | StepOptions): AsyncResult<TState, TError | ValidationError | ExceptionalError> {
+        return new AsyncResult(this._promise.then(result => result.validate(rules, step)));
+    }
+
+    /**
+     * Async accumulating validation applied once the pending result settles. See {@link Result.validateAsync}.
+     */
+    public validateAsync(rules: AsyncValidationRule<TState>[], step?: string | StepOptions): AsyncResult<TState, TError | ValidationError | ExceptionalError | PromiseRejection> {
+        return new AsyncResult(this._promise.then(result => result.validateAsync(rules, step)));
+    }
+
+    /**
+     * Runs a contingent routine once the pending result settles. See {@link Result.withContingency}.
+     */
+    public withContingency(contingency: Contingency<TState>, step?: string | StepOptions): AsyncResult<TState, TError> {
+        return new AsyncResult(this._promise.then(result => result.withContingency(contingency, step)));
+    }
+
+    /**
+     * Runs and awaits a contingent routine once the pending result settles. See {@link Result.withContingencyAsync}.
+     */
+    public withContingencyAsync(contingency: AsyncContingency<TState>, step?: string | StepOptions): AsyncResult<TState, TError> {
+        return new AsyncResult(this._promise.then(result => result.withContingencyAsync(contingency, step)));
+    }
+
+    /**
+     * Folds a successful contingency back in once the pending result settles. See {@link Result.resolveWith}.
+     */
+    public resolveWith(contingency?: Result<TState, AError>): AsyncResult<TState, TError> {
+        return new AsyncResult(this._promise.then(result => result.resolveWith(contingency)));
+    }
+
+    /**
+     * Records a success once the pending result settles. See {@link Result.withSuccess}.
+     */
+    public withSuccess(success: ASuccess | (() => ASuccess | undefined) | ((input: TState) => ASuccess | undefined)): AsyncResult<TState, TError | ExceptionalError> {
+        return new AsyncResult(this._promise.then(result => result.withSuccess(success)));
+    }
+
+    /**
+     * Records a warning once the pending result settles. See {@link Result.withWarning}.
+     */
+    public withWarning(warning: AWarning | (() => AWarning | undefined) | ((input: TState) => AWarning | undefined)): AsyncResult<TState, TError | ExceptionalError> {
+        return new AsyncResult(this._promise.then(result => result.withWarning(warning)));
+    }
+
+    /**
+     * Replaces the failure policy once the pending result settles. See {@link Result.withFailurePolicy}.
+     */
+    public withFailurePolicy(policy: FailurePolicy): AsyncResult<TState, TError> {
+        return new AsyncResult(this._promise.then(result => result.withFailurePolicy(policy)));
+    }
+
+    /**
+     * Adds instrumentation once the pending result settles. See {@link Result.withInstrumentation}.
+     */
+    public withInstrumentation(instrumentation: Instrumentation): AsyncResult<TState, TError> {
+        return new AsyncResult(this._promise.then(result => result.withInstrumentation(instrumentation)));
+    }
+
+    /**
+     * Cancels the pipeline when `signal` aborts, once the pending result settles. See {@link Result.withSignal}.
+     * To interrupt the entry point itself, pass the signal to the options of {@link Result.tryAsync}.
+     */
+    public withSignal(signal: AbortSignal): AsyncResult<TState, TError | CancelledError | TimeoutError> {
+        return new AsyncResult(this._promise.then(result => result.withSignal(signal)));
+    }
+
+    /**
+     * Starts the pipeline timeout once the pending result settles. See {@link Result.withTimeout}.
+     */
+    public withTimeout(timeoutMs: number): AsyncResult<TState, TError | CancelledError | TimeoutError> {
+        return new AsyncResult(this._promise.then(result => result.withTimeout(timeoutMs)));
+    }
+
+    /**
+     * Recovers once the pending result settles. See {@link Result.recover}.
+     */
+    public recover(matcher: (error: AError) => boolean, fallback: (error: TError) => TState): AsyncResult<TState, TError | ExceptionalError>;
+    public recover<TMatch extends AError>(matcher: ErrorClass<TMatch>, fallback: (error: TMatch) => TState): AsyncResult<TState, RecoveredErrors<TError, TMatch>>;
+    public recover<TMatch extends AError>(matcher: ErrorMatcher<TMatch>, fallback: (error: TMatch) => TState): AsyncResult<TState, AError> {
+        return new AsyncResult(this._promise.then(result => result.recover(matcher as ErrorClass<TMatch>, fallback)));
+    }
+
+    /**
+     * Runs an alternative routine once the pending result settles. See {@link Result.orElse}.
+     */
+    public orElse<E extends AError = AError>(alternative: (errors: TError[]) => Result<TState, E>): AsyncResult<TState, TError | E | ExceptionalError> {
+        return new AsyncResult(this._promise.then(result => result.orElse(alternative)));
+    }
+
+    /**
+     * Runs an async alternative routine once the pending result settles. See {@link Result.orElseAsync}.
+     */
+    public orElseAsync<E extends AError = AError>(alternative: (errors: TError[]) => PromiseLike<Result<TState, E>>)
+        : AsyncResult<TState, TError | E | ExceptionalError | PromiseRejection> {
+        return new AsyncResult(this._promise.then(result => result.orElseAsync(alternative)));
+    }
+
+    /**
+     * Translates errors once the pending result settles. See {@link Result.mapError}.
+     */
+    public mapError<E extends AError>(mapper: (error: TError) => E): AsyncResult<TState, E | ExceptionalError> {
+        return new AsyncResult(this._promise.then(result => result.mapError(mapper)));
+    }
+
+    /**
+     * Runs a side effect once the pending result settles. See {@link Result.tap}.
+     */
+    public tap(action: (() => void) | ((input: TState) => void)): AsyncResult<TState, TError> {
+        return new AsyncResult(this._promise.then(result => result.tap(action)));
+    }
+
+    /**
+     * Awaits a side effect once the pending result settles. See {@link Result.tapAsync}.
+     */
+    public tapAsync(action: (() => Promise<void>) | ((input: TState) => Promise<void>)): AsyncResult<TState, TError> {
+        return new AsyncResult(this._promise.then(result => result.tapAsync(action)));
+    }
+
+    /**
+     * Runs an error side effect once the pending result settles. See {@link Result.tapError}.
+     */
+    public tapError(action: (errors: TError[]) => void): AsyncResult<TState, TError> {
+        return new AsyncResult(this._promise.then(result => result.tapError(action)));
+    }
+
+    /**
+     * Awaits an error side effect once the pending result settles. See {@link Result.tapErrorAsync}.
+     */
+    public tapErrorAsync(action: (errors: TError[]) => Promise<void>): AsyncResult<TState, TError> {
+        return new AsyncResult(this._promise.then(result => result.tapErrorAsync(action)));
+    }
+
+    /**
+     * Folds both outcomes into one value once the pending result settles; handlers may return promises. See {@link Result.match}.
+     */
+    public match<R>(handlers: MatchHandlers<TState, R | PromiseLike<R>, TError>): Promise<R> {
+        return this._promise.then(result => result.match(handlers));
+    }
+
+    /**
+     * Starts an {@link ErrorMatch} over the errors of the pending result; it completes with a promise. See {@link Result.matchError}.
+     */
+    public matchError(): ErrorMatch<never, true, TError> {
+        return new ErrorMatch(this._promise.then(result => result.errors));
+    }
+}
+
+// Lets `instanceof Promise` checks accept an AsyncResult; `then`, `catch` and `finally` above shadow the native ones.
+Object.setPrototypeOf(AsyncResult.prototype, Promise.prototype);
@@ -0,0 +1,93 @@
+import { AError } from './AError';
+import { CancelledError } from './CancelledError';
+import { TimeoutError } from './TimeoutError';
+
+/**
+ * An abort signal scoped to one attempt of an async step, or to one wait between attempts.
+ */
+export interface AbortScope {
+    /** Aborted when the pipeline is cancelled or the scope's timeout elapses. */
+    signal: AbortSignal;
+    /** Settles with the error to record once {@link signal} aborts. */
+    interrupted: Promise<AError>;
+    /** Stops following the pipeline signal and clears the timeout. */
+    dispose(): void;
+}
+
+/**
+ * A signal derived from other signals or a timer.
+ */
+export interface LinkedSignal {
+    signal: AbortSignal;
+    /** Stops following the source signals and clears the timer, so nothing keeps a reference to {@link signal}. */
+    dispose(): void;
+}
+
+/**
+ * Opens an {@link AbortScope} that follows `pipelineSignal` and, when given, aborts with a {@link TimeoutError} after `timeoutMs`.
+ */
+export function openAbortScope(pipelineSignal?: AbortSignal, timeoutMs?: number): AbortScope {
+    const controller = new AbortController();
+    const interrupted = new Promise<AError>(resolve => {
+        controller.signal.addEventListener('abort', () => resolve(toAbortError(controller.signal.reason)), { once: true });
+    });
+    const follow = () => controller.abort(pipelineSignal?.reason);
+    if (pipelineSignal?.aborted) follow();
+    else pipelineSignal?.addEventListener('abort', follow, { once: true });
+    const timer = timeoutMs === undefined ? undefined : setTimeout(() => controller.abort(new TimeoutError(timeoutMs)), timeoutMs);
+    return {
+        signal: controller.signal,
+        interrupted,
+        dispose() {
+            clearTimeout(timer);
+            pipelineSignal?.removeEventListener('abort', follow);
+        }
+    };
+}
+
+/**
+ * The error recorded for an abort `reason`: a {@link TimeoutError} for timeouts, a {@link CancelledError} otherwise.
+ */
+export function toAbortError(reason: unknown): AError {
+    return reason instanceof TimeoutError ? new TimeoutError(reason.timeoutMs) : new CancelledError(reason);
+}
+
+/**
+ * A signal that aborts – with the same reason – as soon as any of `signals` aborts.
+ * It stops listening to `signals` once it aborted or was disposed; dispose it once it is no longer needed,
+ * so long-lived signals do not accumulate listeners.
+ */
+export function anySignal(signals: AbortSignal[]): LinkedSignal {
+    // Where the runtime has it, AbortSignal.any follows the sources without adding listeners to them.
+    if (typeof AbortSignal.any === 'function') {
+        return { signal: AbortSignal.any(signals), dispose: () => { } };
+    }
+    const controller = new AbortController();
+    const listeners: [AbortSignal, () => void][] = [];
+    const dispose = () => listeners.splice(0).forEach(([signal, listener]) => signal.removeEventListener('abort', listener));
+    for (const signal of signals) {
+        if (signal.aborted) {
+            controller.abort(signal.reason);
+            break;
+        }
+        const listener = () => {
+            dispose();
+            controller.abort(signal.reason);
+        };
+        signal.addEventListener('abort', listener, { once: true });
+        listeners.push([signal, listener]);
+    }
+    if (controller.signal.aborted) dispose();
+    return { signal: controller.signal, dispose };
+}
+
+/**
+ * A signal that aborts with a {@link TimeoutError} after `timeoutMs`. Its timer does not keep the process alive,
+ * and is cleared once disposed.
+ */
+export function timeoutSignal(timeoutMs: number): LinkedSignal {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new TimeoutError(timeoutMs)), timeoutMs);
+    (timer as { unref?: () => void }).unref?.();
+    return { signal: controller.signal, dispose: () => clearTimeout(timer) };
+}
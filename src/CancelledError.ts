@@ -0,0 +1,19 @@
+import { AError } from "./AError";
+import { captureThrowable } from "./CapturedThrowable";
+
+/**
+ * Records that a pipeline was cancelled through its `AbortSignal`. Every later step is skipped.
+ */
+export class CancelledError extends AError {
+    private _reason: unknown;
+    /**
+     * @param reason The abort reason of the signal.
+     */
+    constructor(reason: unknown) {
+        super(`Cancelled: ${captureThrowable(reason).message}`);
+        this._reason = reason;
+    }
+    get reason(): unknown {
+        return this._reason;
+    }
+}
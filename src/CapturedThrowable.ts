@@ -0,0 +1,109 @@
+/**
+ * A plain, serialisation-safe snapshot of a thrown value or rejection reason.
+ */
+export interface CapturedThrowable {
+    /** The error's `name` (e.g. `TypeError`), or `undefined` for non-error values. */
+    name?: string;
+    /** The error's `message`, or a safe textual rendering of a non-error value. */
+    message: string;
+    /** The stack trace, when the value carried one. */
+    stack?: string;
+    /** The captured `cause`, when the value carried one. */
+    cause?: CapturedThrowable;
+    /** The captured inner errors of an `AggregateError`. */
+    errors?: CapturedThrowable[];
+}
+
+/**
+ * Captures `value` into a {@link CapturedThrowable}. Never throws, whatever `value` is:
+ * cyclic `cause` chains, cyclic objects, `BigInt`s, symbols and hostile getters are all tolerated.
+ *
+ * @param value Anything that was thrown or passed to `reject`.
+ */
+export function captureThrowable(value: unknown): CapturedThrowable {
+    return capture(value, new Set());
+}
+
+/**
+ * Renders `value` as text without ever throwing.
+ * Uses JSON where possible, marking cycles as `[Circular]` and `BigInt`s with an `n` suffix.
+ *
+ * @param value Anything.
+ */
+export function safeStringify(value: unknown): string {
+    if (typeof value === 'bigint') return `${value}n`;
+    if (typeof value !== 'object' || value === null) return String(value);
+    try {
+        const ancestors: object[] = [];
+        const json = JSON.stringify(value, function (this: unknown, key, v) {
+            if (typeof v === 'bigint') return `${v}n`;
+            if (typeof v === 'symbol' || typeof v === 'function') return String(v);
+            if (typeof v === 'object' && v !== null) {
+                // `this` is the object holding `key`; drop ancestors we have already left.
+                while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) ancestors.pop();
+                if (ancestors.includes(v)) return '[Circular]';
+                ancestors.push(v);
+            }
+            return v;
+        });
+        // `toJSON` may opt out of serialisation altogether.
+        return json === undefined ? String(value) : json;
+    }
+    catch {
+        try {
+            return String(value);
+        }
+        catch {
+            return Object.prototype.toString.call(value);
+        }
+    }
+}
+
+/**
+ * Rebuilds a throwable from a {@link CapturedThrowable}, e.g. after it crossed a process boundary.
+ * Captured errors become `Error` instances carrying the same `name`, `message`, `stack`, `cause` and `errors`;
+ * captured non-error values become their textual rendering.
+ *
+ * @param captured A snapshot previously produced by {@link captureThrowable}.
+ */
+export function reviveThrowable(captured: CapturedThrowable): unknown {
+    if (captured.name === undefined) {
+        return captured.message;
+    }
+    const error: Error & { cause?: unknown, errors?: unknown[] } = new Error(captured.message);
+    error.name = captured.name;
+    error.stack = captured.stack;
+    if (captured.cause) error.cause = reviveThrowable(captured.cause);
+    if (captured.errors) error.errors = captured.errors.map(reviveThrowable);
+    return error;
+}
+
+function capture(value: unknown, seen: Set<unknown>): CapturedThrowable {
+    if (!(value instanceof Error)) {
+        return { message: safeStringify(value) };
+    }
+    seen.add(value);
+    const captured: CapturedThrowable = {
+        name: read(() => String(value.name)),
+        message: read(() => String(value.message)) ?? '',
+        stack: read(() => value.stack)
+    };
+    const cause = read(() => (value as { cause?: unknown }).cause);
+    if (cause !== undefined) {
+        captured.cause = seen.has(cause) ? { message: '[Circular]' } : capture(cause, seen);
+    }
+    const errors = read(() => (value as { errors?: unknown }).errors);
+    if (Array.isArray(errors)) {
+        captured.errors = errors.map(e => seen.has(e) ? { message: '[Circular]' } : capture(e, seen));
+    }
+    return captured;
+}
+
+function read<T>(getter: () => T): T | undefined {
+    try {
+        return getter();
+    }
+    catch {
+        return undefined;
+    }
+}
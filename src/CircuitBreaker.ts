@@ -0,0 +1,205 @@
+import { AError, ErrorClass, ErrorMatcher, toErrorPredicate } from './AError';
+import { CancelledError } from './CancelledError';
+
+/**
+ * The state of a {@link CircuitBreaker}:
+ * • `closed` – calls pass; their outcomes are counted against the thresholds.
+ * • `open` – calls fail at once with a {@link CircuitOpenError} until {@link CircuitBreakerOptions.openDurationMs} have elapsed.
+ * • `halfOpen` – a limited number of trial calls pass; their outcomes close or reopen the circuit.
+ */
+export type CircuitState = 'closed' | 'open' | 'halfOpen';
+
+/**
+ * Describes when a {@link CircuitBreaker} opens and how it recovers. At least one threshold is required.
+ */
+export interface CircuitBreakerOptions {
+    /** Identifies the circuit in {@link CircuitOpenError}s and {@link CircuitStateChange}s. */
+    name: string;
+    /** Opens the circuit after this many consecutive failed calls. */
+    consecutiveFailures?: number;
+    /** Opens the circuit once this share (`0`–`1`) of the calls in the window failed. */
+    failureRate?: number;
+    /** The number of most recent calls {@link failureRate} is computed over. Defaults to `20`. */
+    windowSize?: number;
+    /** The number of calls in the window before {@link failureRate} applies. Defaults to `10`. */
+    minimumCalls?: number;
+    /** How long the circuit stays open before admitting trial calls, in milliseconds. Defaults to `30000`. */
+    openDurationMs?: number;
+    /** The number of trial calls admitted while half-open; the circuit closes once they all succeed. Defaults to `1`. */
+    halfOpenTrials?: number;
+    /**
+     * Decides which errors count as failures – an {@link AError} class, a list of classes or a predicate.
+     * Failures arrive as {@link PromiseRejection}s, {@link ExceptionalError}s and {@link TimeoutError}s. Every error counts when omitted.
+     */
+    tripIf?: ErrorMatcher | ErrorClass[];
+    /** The clock, in epoch milliseconds. Defaults to `Date.now`; inject a fake to control time in tests. */
+    now?: () => number;
+}
+
+/**
+ * A transition of a {@link CircuitBreaker}, as passed to {@link CircuitBreaker.onStateChange} listeners.
+ */
+export interface CircuitStateChange {
+    breaker: CircuitBreaker;
+    from: CircuitState;
+    to: CircuitState;
+    /** Epoch milliseconds, per the breaker's clock. */
+    at: number;
+}
+
+/**
+ * Admission to call through a {@link CircuitBreaker}, handed out by {@link CircuitBreaker.tryAcquire}.
+ */
+export interface CircuitPermit {
+    /**
+     * Reports the outcome of the call: `undefined` on success, or the error it produced.
+     * A {@link CancelledError} only frees the permit. Later reports are ignored.
+     */
+    complete(error?: AError): void;
+}
+
+/**
+ * Stops calling a failing dependency: once too many calls failed, the circuit opens and every async step using it
+ * fails at once with a {@link CircuitOpenError}, until trial calls show the dependency has recovered.
+ *
+ * Attach it to async steps through their `circuitBreaker` option; a single breaker is meant to be shared by every
+ * pipeline calling the same dependency.
+ */
+export class CircuitBreaker {
+    private _state: CircuitState = 'closed';
+    private options: CircuitBreakerOptions;
+    private listeners: ((change: CircuitStateChange) => void)[] = [];
+    /** Incremented on every transition, so permits handed out before it are ignored. */
+    private generation = 0;
+    private openedAt = 0;
+    /** The outcomes of the most recent calls while closed; `true` for failures. */
+    private outcomes: boolean[] = [];
+    private consecutive = 0;
+    private trials = 0;
+    private trialSuccesses = 0;
+
+    /**
+     * @throws {Error}  If neither `consecutiveFailures` nor `failureRate` is given.
+     */
+    constructor(options: CircuitBreakerOptions) {
+        if (options.consecutiveFailures === undefined && options.failureRate === undefined) {
+            throw new Error(`Circuit breaker '${options.name}' needs a consecutiveFailures or failureRate threshold.`);
+        }
+        this.options = options;
+    }
+
+    public get name(): string {
+        return this.options.name;
+    }
+
+    /** The current state; an open circuit turns half-open once its open duration has elapsed. */
+    public get state(): CircuitState {
+        if (this._state === 'open' && this.now() - this.openedAt >= this.openDurationMs) this.transition('halfOpen');
+        return this._state;
+    }
+
+    /** The time, in milliseconds, until an open circuit admits a trial call; `0` otherwise. */
+    public get retryAfterMs(): number {
+        return this.state === 'open' ? this.openedAt + this.openDurationMs - this.now() : 0;
+    }
+
+    /**
+     * Subscribes `listener` to the transitions of this breaker. Exceptions thrown by listeners are swallowed.
+     *
+     * @returns A function that unsubscribes it again.
+     */
+    public onStateChange(listener: (change: CircuitStateChange) => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            const index = this.listeners.indexOf(listener);
+            if (index >= 0) this.listeners.splice(index, 1);
+        };
+    }
+
+    /**
+     * Asks to make a call through the breaker.
+     *
+     * @returns A permit to report the call's outcome to, or `undefined` when the circuit rejects the call.
+     */
+    public tryAcquire(): CircuitPermit | undefined {
+        const state = this.state;
+        if (state === 'open') return undefined;
+        if (state === 'halfOpen') {
+            if (this.trials >= (this.options.halfOpenTrials ?? 1)) return undefined;
+            this.trials++;
+        }
+        const generation = this.generation;
+        let completed = false;
+        return {
+            complete: (error?: AError) => {
+                if (completed) return;
+                completed = true;
+                if (generation === this.generation) this.record(error);
+            }
+        };
+    }
+
+    private get openDurationMs(): number {
+        return this.options.openDurationMs ?? 30000;
+    }
+
+    private now(): number {
+        return (this.options.now ?? Date.now)();
+    }
+
+    /**
+     * Internal helper—counts the outcome of a call admitted in the current state.
+     */
+    private record(error?: AError): void {
+        if (this._state === 'halfOpen') this.trials--;
+        if (error instanceof CancelledError) return;
+        const failed = error !== undefined && this.trips(error);
+        if (this._state === 'halfOpen') {
+            if (failed) this.transition('open');
+            else if (++this.trialSuccesses >= (this.options.halfOpenTrials ?? 1)) this.transition('closed');
+            return;
+        }
+        this.outcomes.push(failed);
+        if (this.outcomes.length > (this.options.windowSize ?? 20)) this.outcomes.shift();
+        this.consecutive = failed ? this.consecutive + 1 : 0;
+        if (failed && this.exceedsThresholds()) this.transition('open');
+    }
+
+    private trips(error: AError): boolean {
+        const tripIf = this.options.tripIf;
+        if (tripIf === undefined) return true;
+        return Array.isArray(tripIf) ? tripIf.some(errorClass => error instanceof errorClass) : toErrorPredicate(tripIf)(error);
+    }
+
+    private exceedsThresholds(): boolean {
+        const { consecutiveFailures, failureRate, minimumCalls = 10 } = this.options;
+        if (consecutiveFailures !== undefined && this.consecutive >= consecutiveFailures) return true;
+        if (failureRate === undefined || this.outcomes.length < minimumCalls) return false;
+        return this.outcomes.filter(failed => failed).length / this.outcomes.length >= failureRate;
+    }
+
+    /**
+     * Internal helper—moves to the `to` state, resetting its counters, and notifies the listeners.
+     */
+    private transition(to: CircuitState): void {
+        const from = this._state;
+        this._state = to;
+        this.generation++;
+        this.trials = 0;
+        this.trialSuccesses = 0;
+        if (to === 'open') this.openedAt = this.now();
+        if (to === 'closed') {
+            this.outcomes = [];
+            this.consecutive = 0;
+        }
+        const change: CircuitStateChange = { breaker: this, from, to, at: this.now() };
+        for (const listener of this.listeners.slice()) {
+            try {
+                listener(change);
+            }
+            catch {
+                // Listeners must never affect the breaker.
+            }
+        }
+    }
+}
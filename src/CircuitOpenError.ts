@@ -0,0 +1,25 @@
+import { AError } from "./AError";
+
+/**
+ * Fails an async step at once, without calling its delegate, because its {@link CircuitBreaker} is open
+ * (or half-open with every trial call already running).
+ */
+export class CircuitOpenError extends AError {
+    private _circuitName: string;
+    private _retryAfterMs: number;
+    /**
+     * @param circuitName The name of the circuit breaker.
+     * @param retryAfterMs The time, in milliseconds, until the circuit admits a trial call; `0` when half-open.
+     */
+    constructor(circuitName: string, retryAfterMs: number) {
+        super(`Circuit '${circuitName}' is open`);
+        this._circuitName = circuitName;
+        this._retryAfterMs = retryAfterMs;
+    }
+    get circuitName(): string {
+        return this._circuitName;
+    }
+    get retryAfterMs(): number {
+        return this._retryAfterMs;
+    }
+}
@@ -0,0 +1,21 @@
+import { AError } from "./AError";
+
+/**
+ * Records that the compensating action of a step registered with {@link Result.bindCompensated} threw or rejected.
+ * The captured failure is recorded as its cause; the remaining compensations still run.
+ */
+export class CompensationFailedError extends AError {
+    private _stepName?: string;
+    /**
+     * @param stepName The name of the compensated step, if it has one.
+     * @param error The failure of the compensating action, usually an {@link ExceptionalError} or a {@link PromiseRejection}.
+     */
+    constructor(stepName: string | undefined, error: AError) {
+        super(`Compensation of ${stepName === undefined ? 'an unnamed step' : `step '${stepName}'`} failed: ${error.message}`);
+        this._stepName = stepName;
+        this.causedBy(error);
+    }
+    get stepName(): string | undefined {
+        return this._stepName;
+    }
+}
@@ -0,0 +1,18 @@
+import { ASuccess } from "./ASuccess";
+
+/**
+ * Records that the compensating action of a step registered with {@link Result.bindCompensated} completed.
+ */
+export class CompensationSucceeded extends ASuccess {
+    private _stepName?: string;
+    /**
+     * @param stepName The name of the compensated step, if it has one.
+     */
+    constructor(stepName: string | undefined) {
+        super(`Compensated ${stepName === undefined ? 'an unnamed step' : `step '${stepName}'`}`);
+        this._stepName = stepName;
+    }
+    get stepName(): string | undefined {
+        return this._stepName;
+    }
+}
@@ -0,0 +1,25 @@
+import { AError } from "./AError";
+
+/**
+ * Stops a {@link Result.stream} once more items failed than its {@link ErrorBudget} allows.
+ * Items not yet processed are never started, and the running ones are aborted.
+ */
+export class ErrorBudgetExceededError extends AError {
+    private _failed: number;
+    private _processed: number;
+    /**
+     * @param failed The number of failed items when the stream stopped.
+     * @param processed The number of items processed when the stream stopped.
+     */
+    constructor(failed: number, processed: number) {
+        super(`Error budget exceeded: ${failed} of ${processed} item${processed === 1 ? '' : 's'} failed`);
+        this._failed = failed;
+        this._processed = processed;
+    }
+    get failed(): number {
+        return this._failed;
+    }
+    get processed(): number {
+        return this._processed;
+    }
+}
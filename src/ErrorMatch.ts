@@ -0,0 +1,94 @@
+import { AError } from './AError';
+import { ExceptionalError } from './ExceptionalError';
+import { PromiseRejection } from './PromiseRejection';
+
+/**
+ * Any class whose instances can be matched, including built-in and third-party exception classes.
+ */
+export type ThrowableClass<T = unknown> = abstract new (...args: any[]) => T;
+
+/**
+ * The outcome of {@link ErrorMatch.otherwise}: the handler's value, or a promise of it for async matches.
+ */
+export type MatchOutcome<R, TAsync extends boolean> = TAsync extends true ? Promise<Awaited<R>> : R;
+
+/**
+ * Exhaustive handlers for both outcomes of a {@link Result}, as accepted by {@link Result.match}.
+ */
+export interface MatchHandlers<TState, R, TError extends AError = AError> {
+    /** Called with {@link Result.currentState} when the result succeeded. */
+    ok: (state: TState) => R;
+    /** Called with {@link Result.errors} when the result failed. */
+    fail: (errors: TError[]) => R;
+}
+
+/**
+ * A builder dispatching on the errors of a result by class, created by {@link Result.matchError}.
+ *
+ * Errors are inspected in order; the first one matched by any handler is dispatched to the handler registered
+ * for its most specific class (ties go to the handler registered first). An {@link ExceptionalError} or a
+ * {@link PromiseRejection} also matches the class of the exception or rejection reason it wraps; the handler
+ * then receives the wrapped value.
+ */
+export class ErrorMatch<R = never, TAsync extends boolean = false, TError extends AError = AError> {
+
+    private _errors: TError[] | PromiseLike<TError[]>;
+    private _cases: { errorClass: ThrowableClass, handler: (error: any) => unknown }[] = [];
+
+    /**
+     * @param errors The errors to match, or a promise of them for async matches.
+     */
+    constructor(errors: TError[] | PromiseLike<TError[]>) {
+        this._errors = errors;
+    }
+
+    /**
+     * Registers a handler for errors of `errorClass` (including subclasses).
+     *
+     * @param errorClass An {@link AError} subclass, or the class of an exception or rejection reason.
+     * @param handler Called with the matched error, or with the wrapped exception or reason.
+     *
+     * @returns **this** for chaining.
+     */
+    public on<E, R2>(errorClass: ThrowableClass<E>, handler: (error: E) => R2): ErrorMatch<R | R2, TAsync, TError> {
+        this._cases.push({ errorClass, handler });
+        return this as unknown as ErrorMatch<R | R2, TAsync, TError>;
+    }
+
+    /**
+     * Completes the match.
+     *
+     * @param fallback Called with every error when no handler matched – including with no errors at all
+     *                 when the result succeeded.
+     *
+     * @returns The value returned by the dispatched handler (awaited for async matches).
+     */
+    public otherwise<R2>(fallback: (errors: TError[]) => R2): MatchOutcome<R | R2, TAsync> {
+        const dispatch = (errors: TError[]) => this.dispatch(errors, fallback);
+        return (Array.isArray(this._errors) ? dispatch(this._errors) : Promise.resolve(this._errors).then(dispatch)) as MatchOutcome<R | R2, TAsync>;
+    }
+
+    /**
+     * Internal helper—calls the handler for the first matched error, or `fallback`.
+     */
+    private dispatch(errors: TError[], fallback: (errors: TError[]) => unknown): unknown {
+        for (const error of errors) {
+            const candidates = [error, ...unwrap(error)];
+            let best: { errorClass: ThrowableClass, handler: (error: any) => unknown, target: unknown } | undefined;
+            for (const matchCase of this._cases) {
+                const target = candidates.find(candidate => candidate instanceof matchCase.errorClass);
+                if (target !== undefined && (!best || matchCase.errorClass.prototype instanceof best.errorClass)) {
+                    best = { ...matchCase, target };
+                }
+            }
+            if (best) return best.handler(best.target);
+        }
+        return fallback(errors);
+    }
+}
+
+function unwrap(error: AError): unknown[] {
+    if (error instanceof ExceptionalError) return [error.exception];
+    if (error instanceof PromiseRejection) return [error.reason];
+    return [];
+}
@@ -1,15 +1,35 @@
 import { AError } from "./AError";
+import { CapturedThrowable, captureThrowable } from "./CapturedThrowable";
 
 export class ExceptionalError extends AError{
     private _exception: any;
+    private _captured: CapturedThrowable;
     /**
      *
      */
     constructor(exception: any) {
-        super(JSON.stringify(exception));       
+        const captured = captureThrowable(exception);
+        super(captured.message);       
         this._exception = exception; 
+        this._captured = captured;
     }
     get exception(): any{
         return this._exception;
     }
-}
\ No newline at end of file
+    /** The thrown error's `name`, or `undefined` when a non-error value was thrown. */
+    get name(): string | undefined {
+        return this._captured.name;
+    }
+    /** The thrown error's stack trace, when it carried one. */
+    get stack(): string | undefined {
+        return this._captured.stack;
+    }
+    /** The captured `cause` chain of the thrown error. */
+    get cause(): CapturedThrowable | undefined {
+        return this._captured.cause;
+    }
+    /** The captured inner errors when an `AggregateError` was thrown. */
+    get innerErrors(): CapturedThrowable[] | undefined {
+        return this._captured.errors;
+    }
+}
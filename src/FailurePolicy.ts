@@ -0,0 +1,28 @@
+import { AError } from './AError';
+import { AReason } from './AReason';
+import { AWarning } from './AWarning';
+
+/**
+ * Decides whether a result is failed given every reason it has gathered so far.
+ */
+export type FailurePolicy = (reasons: AReason[]) => boolean;
+
+/**
+ * Built-in {@link FailurePolicy | failure policies}.
+ */
+export const FailurePolicies = {
+    /** Fails as soon as **at least one** {@link AError} exists (the default). */
+    errorsOnly: ((reasons) => reasons.some((r) => r instanceof AError)) as FailurePolicy,
+
+    /** Fails as soon as **at least one** {@link AError} *or* {@link AWarning} exists. */
+    warningsAsErrors: ((reasons) => reasons.some((r) => r instanceof AError || r instanceof AWarning)) as FailurePolicy,
+
+    /**
+     * Fails on any {@link AError}, or once more than `limit` {@link AWarning | warnings} have accumulated.
+     * @param limit The number of warnings tolerated.
+     */
+    maxWarnings(limit: number): FailurePolicy {
+        return (reasons) => FailurePolicies.errorsOnly(reasons)
+            || reasons.filter((r) => r instanceof AWarning).length > limit;
+    }
+};
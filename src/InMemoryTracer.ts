@@ -0,0 +1,91 @@
+import { SpanAttributes, SpanAttributeValue, SpanLike, SpanStatusCode, TracerLike } from './SpanInstrumentation';
+
+/**
+ * A span recorded by {@link InMemoryTracer}.
+ */
+export class RecordedSpan implements SpanLike {
+    private static _nextId = 1;
+
+    public readonly id: number = RecordedSpan._nextId++;
+    public readonly name: string;
+    public readonly parent?: RecordedSpan;
+    public readonly startTime: number;
+    public endTime?: number;
+    public readonly attributes: Record<string, SpanAttributeValue> = {};
+    public readonly events: { name: string, attributes: SpanAttributes, time: number }[] = [];
+    public status: { code: SpanStatusCode, message?: string } = { code: SpanStatusCode.UNSET };
+
+    private _exporter: InMemorySpanExporter;
+
+    constructor(exporter: InMemorySpanExporter, name: string, options: { attributes?: SpanAttributes, startTime?: number }, parent?: RecordedSpan) {
+        this._exporter = exporter;
+        this.name = name;
+        this.parent = parent;
+        this.startTime = options.startTime ?? Date.now();
+        Object.entries(options.attributes ?? {}).forEach(([key, value]) => { if (value !== undefined) this.attributes[key] = value; });
+    }
+
+    /** `true` until {@link end} is called. */
+    public get isRecording(): boolean {
+        return this.endTime === undefined;
+    }
+
+    public setAttribute(key: string, value: SpanAttributeValue): RecordedSpan {
+        this.attributes[key] = value;
+        return this;
+    }
+
+    public addEvent(name: string, attributes: SpanAttributes = {}): RecordedSpan {
+        this.events.push({ name, attributes, time: Date.now() });
+        return this;
+    }
+
+    public setStatus(status: { code: SpanStatusCode, message?: string }): RecordedSpan {
+        this.status = status;
+        return this;
+    }
+
+    /**
+     * Ends the span and hands it to the exporter. Ending an already ended span is a no-op, as in OpenTelemetry.
+     */
+    public end(endTime?: number): void {
+        if (!this.isRecording) return;
+        this.endTime = endTime ?? Date.now();
+        this._exporter.export(this);
+    }
+}
+
+/**
+ * Collects finished spans in memory, mirroring OpenTelemetry's `InMemorySpanExporter`.
+ */
+export class InMemorySpanExporter {
+    private _spans: RecordedSpan[] = [];
+
+    public export(span: RecordedSpan): void {
+        this._spans.push(span);
+    }
+
+    /** Finished spans, in the order they ended. */
+    public getFinishedSpans(): RecordedSpan[] {
+        return this._spans.slice();
+    }
+
+    public reset(): void {
+        this._spans.length = 0;
+    }
+}
+
+/**
+ * A {@link TracerLike} that records spans into an {@link InMemorySpanExporter}, for tests and offline debugging.
+ */
+export class InMemoryTracer implements TracerLike {
+    public readonly exporter: InMemorySpanExporter;
+
+    constructor(exporter: InMemorySpanExporter = new InMemorySpanExporter()) {
+        this.exporter = exporter;
+    }
+
+    public startSpan(name: string, options: { attributes?: SpanAttributes, startTime?: number } = {}, parent?: SpanLike): RecordedSpan {
+        return new RecordedSpan(this.exporter, name, options, parent as RecordedSpan | undefined);
+    }
+}
@@ -0,0 +1,64 @@
+import { AReason } from './AReason';
+import { AResult } from './Result';
+import { StepEntry, StepKind } from './Step';
+
+/**
+ * Hooks notified as pipelines execute. Every hook is optional; exceptions thrown by hooks are swallowed
+ * so that instrumentation can never change a pipeline's outcome.
+ *
+ * Register globally with {@link registerInstrumentation}, or per result with `Result.withInstrumentation`.
+ */
+export interface Instrumentation {
+    /** A root result was created by `Result.try`, `tryAsync`, `ok`, `fail` or `merge`. */
+    onPipelineStart?(result: AResult): void;
+    /** A chaining method is about to run (or be skipped). */
+    onStepStart?(result: AResult, step: { kind: StepKind, name?: string }): void;
+    /** A chaining method finished; `entry` is the journal entry it produced. */
+    onStepEnd?(result: AResult, entry: StepEntry): void;
+    /** A reason was recorded on `result`. */
+    onReasonAdded?(result: AResult, reason: AReason): void;
+    /** `failIf`/`failIfAsync` spawned a contingency `child` of `parent`. */
+    onContingency?(parent: AResult, child: AResult): void;
+    /**
+     * `result` has no work in flight any more and nothing was chained onto it within the same turn of the event loop.
+     * Chaining onto it later resumes the pipeline, and it settles again afterwards.
+     */
+    onPipelineSettled?(result: AResult): void;
+}
+
+const globalInstrumentations: Instrumentation[] = [];
+
+/**
+ * Registers `instrumentation` for every pipeline.
+ *
+ * @returns A function that unregisters it again.
+ */
+export function registerInstrumentation(instrumentation: Instrumentation): () => void {
+    globalInstrumentations.push(instrumentation);
+    return () => {
+        const index = globalInstrumentations.indexOf(instrumentation);
+        if (index >= 0) globalInstrumentations.splice(index, 1);
+    };
+}
+
+/**
+ * `true` when any instrumentation – global, or one of `local` – is registered.
+ */
+export function hasInstrumentations(local: Instrumentation[]): boolean {
+    return globalInstrumentations.length > 0 || local.length > 0;
+}
+
+/**
+ * Invokes `hook` on the global instrumentations followed by `local` ones, swallowing their exceptions.
+ */
+export function notifyInstrumentations<K extends keyof Instrumentation>(
+    local: Instrumentation[], hook: K, ...args: Parameters<NonNullable<Instrumentation[K]>>): void {
+    for (const instrumentation of [...globalInstrumentations, ...local]) {
+        try {
+            (instrumentation[hook] as ((...a: unknown[]) => void) | undefined)?.apply(instrumentation, args);
+        }
+        catch {
+            // Instrumentation must never affect the pipeline.
+        }
+    }
+}
@@ -0,0 +1,138 @@
+import { AError, ErrorClass } from './AError';
+import { AReason } from './AReason';
+import { ExceptionalError } from './ExceptionalError';
+import { PromiseRejection } from './PromiseRejection';
+import { ReasonKind, ReasonRegistry } from './ReasonRegistry';
+import { AResult, Result } from './Result';
+
+/** The media type of an RFC 9457 problem details document. */
+export const PROBLEM_JSON_MEDIA_TYPE = 'application/problem+json';
+
+/**
+ * How an {@link AError} subclass is presented as an RFC 9457 problem.
+ */
+export interface ProblemType {
+    /** URI identifying the problem type. */
+    type: string;
+    /** Short, human-readable summary of the problem type. */
+    title: string;
+    /** HTTP status code. */
+    status: number;
+}
+
+/**
+ * An entry of the `errors` extension member, describing one reason of the result tree.
+ */
+export interface ProblemReason {
+    /** The reason's class name. */
+    reason: string;
+    kind: ReasonKind;
+    message: string;
+    /** The routine that recorded the reason. */
+    routineName: string;
+}
+
+/**
+ * An RFC 9457 `application/problem+json` document describing a failed {@link Result}.
+ */
+export interface ProblemDetails extends ProblemType {
+    /** Explanation specific to this occurrence – the message of the primary error. */
+    detail: string;
+    /** URI identifying this occurrence, when provided. */
+    instance?: string;
+    /** Extension member: the routine that failed. */
+    routineName: string;
+    /** Extension member: every reason of the result and its contingency children. */
+    errors: ProblemReason[];
+}
+
+/**
+ * The subset of Node's `http.ServerResponse` that {@link sendProblemDetails} writes to.
+ */
+export interface ProblemResponse {
+    statusCode: number;
+    setHeader(name: string, value: string): unknown;
+    end(body: string): unknown;
+}
+
+/**
+ * Maps {@link AError} subclasses to problem types and converts failed results into {@link ProblemDetails}.
+ *
+ * The most specific registered class wins; errors of unregistered classes map to a generic `500`.
+ */
+export class ProblemDetailsRegistry {
+    private _types: Map<ErrorClass, ProblemType> = new Map();
+
+    /** Problem type used for errors whose class (and base classes) are not registered. */
+    public static readonly fallback: ProblemType = { type: 'about:blank', title: 'Internal Server Error', status: 500 };
+
+    /**
+     * A registry that already maps {@link ExceptionalError} to `500` and {@link PromiseRejection} to `502`.
+     */
+    public static withDefaults(): ProblemDetailsRegistry {
+        return new ProblemDetailsRegistry()
+            .register(ExceptionalError, { type: 'about:blank', title: 'Internal Server Error', status: 500 })
+            .register(PromiseRejection, { type: 'about:blank', title: 'Bad Gateway', status: 502 });
+    }
+
+    /**
+     * Registers the problem type presented for `errorClass` and its subclasses.
+     *
+     * @returns **this** for chaining.
+     */
+    public register(errorClass: ErrorClass, problemType: ProblemType): ProblemDetailsRegistry {
+        this._types.set(errorClass, problemType);
+        return this;
+    }
+
+    /**
+     * Resolves the problem type of `error` by walking its class hierarchy.
+     */
+    public resolve(error: AError): ProblemType {
+        for (let proto = Object.getPrototypeOf(error); proto && proto !== Object.prototype; proto = Object.getPrototypeOf(proto)) {
+            const problemType = this._types.get(proto.constructor);
+            if (problemType) return problemType;
+        }
+        return ProblemDetailsRegistry.fallback;
+    }
+
+    /**
+     * Converts a failed `result` into a problem details document.
+     * The result's first error decides `type`, `title` and `status`.
+     *
+     * @param result The failed result.
+     * @param [instance] URI identifying this occurrence of the problem.
+     * @throws {Error}  If `result` has no errors.
+     */
+    public toProblemDetails(result: Result, instance?: string): ProblemDetails {
+        const primary = result.errors[0];
+        if (!primary) {
+            throw new Error(`Routine '${result.routineName}' has no errors to describe as problem details.`);
+        }
+        const problem: ProblemDetails = {
+            ...this.resolve(primary),
+            detail: primary.message,
+            routineName: result.routineName,
+            errors: collectReasons(result)
+        };
+        if (instance !== undefined) problem.instance = instance;
+        return problem;
+    }
+}
+
+/**
+ * Writes `problem` to a Node `http.ServerResponse` (or anything shaped like one) and ends the response.
+ */
+export function sendProblemDetails(response: ProblemResponse, problem: ProblemDetails): void {
+    response.statusCode = problem.status;
+    response.setHeader('Content-Type', PROBLEM_JSON_MEDIA_TYPE);
+    response.end(JSON.stringify(problem));
+}
+
+function collectReasons(result: AResult): ProblemReason[] {
+    const own = (result as Result).reasons.map((reason: AReason) => {
+        const { type, kind, message } = ReasonRegistry.serialize(reason);
+        return { reason: type, kind, message, routineName: result.routineName };
+    });
+    return own.concat(...result.children.map(collectReasons));
+}
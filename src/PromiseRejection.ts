@@ -1,15 +1,35 @@
 import { AError } from "./AError";
+import { CapturedThrowable, captureThrowable } from "./CapturedThrowable";
 
 export class PromiseRejection extends AError {
     private _reason: any;
+    private _captured: CapturedThrowable;
     /**
      *
      */
     constructor(reason: any) {
-        super(JSON.stringify(reason));
+        const captured = captureThrowable(reason);
+        super(captured.message);
         this._reason = reason;
+        this._captured = captured;
     }
     get reason(): any {
         return this._reason;
     }
-}
\ No newline at end of file
+    /** The rejection error's `name`, or `undefined` when rejected with a non-error value. */
+    get name(): string | undefined {
+        return this._captured.name;
+    }
+    /** The rejection error's stack trace, when it carried one. */
+    get stack(): string | undefined {
+        return this._captured.stack;
+    }
+    /** The captured `cause` chain of the rejection error. */
+    get cause(): CapturedThrowable | undefined {
+        return this._captured.cause;
+    }
+    /** The captured inner errors when rejected with an `AggregateError`. */
+    get innerErrors(): CapturedThrowable[] | undefined {
+        return this._captured.errors;
+    }
+}
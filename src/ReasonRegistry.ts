@@ -0,0 +1,184 @@
+import { AError } from './AError';
+import { AReason } from './AReason';
+import { ASuccess } from './ASuccess';
+import { AWarning } from './AWarning';
+import { CancelledError } from './CancelledError';
+import { CapturedThrowable, captureThrowable, reviveThrowable } from './CapturedThrowable';
+import { CircuitOpenError } from './CircuitOpenError';
+import { CompensationFailedError } from './CompensationFailedError';
+import { CompensationSucceeded } from './CompensationSucceeded';
+import { ErrorBudgetExceededError } from './ErrorBudgetExceededError';
+import { ExceptionalError } from './ExceptionalError';
+import { PromiseRejection } from './PromiseRejection';
+import { RecoveredError } from './RecoveredError';
+import { RetriesExhaustedError } from './RetriesExhaustedError';
+import { RetryAttemptFailed } from './RetryAttemptFailed';
+import { SchemaIssueError } from './SchemaIssueError';
+import { TimeoutError } from './TimeoutError';
+import { ValidationError } from './ValidationError';
+import { UnknownError, UnknownReason, UnknownSuccess, UnknownWarning } from './UnknownReason';
+
+/** The role a reason plays in a result's outcome. */
+export type ReasonKind = 'error' | 'warning' | 'success' | 'reason';
+
+/**
+ * Wire format of a single {@link AReason}.
+ */
+export interface SerializedReason {
+    /** The reason's type name – its class name unless it was revived as a placeholder. */
+    type: string;
+    kind: ReasonKind;
+    message: string;
+    metadata: Record<string, unknown>;
+    /** Nested causes, for errors that have any. */
+    causes?: SerializedReason[];
+    /** Snapshot of the wrapped value, for {@link ExceptionalError} and {@link PromiseRejection}, or of the abort reason of a {@link CancelledError}. */
+    captured?: CapturedThrowable;
+    /** The wrapped error, for {@link RetryAttemptFailed} and {@link RecoveredError}. */
+    error?: SerializedReason;
+    /** The class-specific fields of the built-in reasons, e.g. the `path`, `code` and `value` of a {@link ValidationError}. */
+    fields?: Record<string, unknown>;
+}
+
+/**
+ * Rebuilds a concrete reason from its wire format.
+ * Metadata and causes are re-attached by the registry afterwards.
+ */
+export type ReasonReviver = (json: SerializedReason) => AReason;
+
+/**
+ * Maps serialised reason type names back to concrete {@link AReason} classes.
+ *
+ * Types without a registered reviver come back as {@link UnknownError}, {@link UnknownWarning},
+ * {@link UnknownSuccess} or {@link UnknownReason} depending on their kind, so reviving never throws.
+ */
+export class ReasonRegistry {
+    private _revivers: Map<string, ReasonReviver> = new Map();
+
+    /**
+     * A registry that already knows every reason this package records: the wrappers {@link ExceptionalError} and
+     * {@link PromiseRejection}, the validation, timeout, cancellation, retry, circuit breaker, compensation and
+     * error budget reasons, and {@link RecoveredError}.
+     */
+    public static withDefaults(): ReasonRegistry {
+        const registry = new ReasonRegistry();
+        const reviveError = (json: SerializedReason | undefined, message: string): AError =>
+            json ? registry.revive(json) as AError : new UnknownError('AError', message);
+        const field = <T>(json: SerializedReason, name: string): T => json.fields?.[name] as T;
+        return registry
+            .register('ExceptionalError', json => new ExceptionalError(reviveThrowable(json.captured ?? { message: json.message })))
+            .register('PromiseRejection', json => new PromiseRejection(reviveThrowable(json.captured ?? { message: json.message })))
+            .register('ValidationError', json => new ValidationError(field(json, 'path') ?? '', field(json, 'code') ?? '', field(json, 'value'), json.message))
+            .register('SchemaIssueError', json => new SchemaIssueError(field(json, 'segments') ?? [], json.message, field(json, 'value')))
+            .register('TimeoutError', json => new TimeoutError(field(json, 'timeoutMs')))
+            .register('CancelledError', json => new CancelledError(reviveThrowable(json.captured ?? { message: json.message })))
+            .register('RetriesExhaustedError', json => new RetriesExhaustedError(field(json, 'attempts'), reviveError(json.causes?.[0], json.message)))
+            .register('CircuitOpenError', json => new CircuitOpenError(field(json, 'circuitName'), field(json, 'retryAfterMs')))
+            .register('CompensationFailedError', json => new CompensationFailedError(field(json, 'stepName'), reviveError(json.causes?.[0], json.message)))
+            .register('CompensationSucceeded', json => new CompensationSucceeded(field(json, 'stepName')))
+            .register('RetryAttemptFailed', json => new RetryAttemptFailed(field(json, 'attempt'), reviveError(json.error, json.message)))
+            .register('RecoveredError', json => new RecoveredError(reviveError(json.error, json.message)))
+            .register('ErrorBudgetExceededError', json => new ErrorBudgetExceededError(field(json, 'failed'), field(json, 'processed')));
+    }
+
+    /**
+     * Registers how to revive a reason type.
+     *
+     * @param reasonClass A reason class constructible from its message; registered under its class name.
+     *
+     * @returns **this** for chaining.
+     */
+    public register(reasonClass: new (message: string) => AReason): ReasonRegistry;
+    /**
+     * @param type The serialised type name.
+     * @param reviver Builds the reason from its wire format.
+     *
+     * @returns **this** for chaining.
+     */
+    public register(type: string, reviver: ReasonReviver): ReasonRegistry;
+    public register(typeOrClass: string | (new (message: string) => AReason), reviver?: ReasonReviver): ReasonRegistry {
+        if (typeof typeOrClass === 'string') {
+            this._revivers.set(typeOrClass, reviver!);
+        }
+        else {
+            this._revivers.set(typeOrClass.name, json => new typeOrClass(json.message));
+        }
+        return this;
+    }
+
+    /**
+     * Converts `reason` – including its metadata and nested causes – into its wire format.
+     */
+    public static serialize(reason: AReason): SerializedReason {
+        const json: SerializedReason = {
+            type: isPlaceholder(reason) ? reason.originalType : reason.constructor.name,
+            kind: kindOf(reason),
+            message: reason.message,
+            metadata: reason.metadata
+        };
+        if (reason instanceof AError && reason.causes.length > 0) {
+            json.causes = reason.causes.map(cause => ReasonRegistry.serialize(cause));
+        }
+        if (reason instanceof ExceptionalError || reason instanceof PromiseRejection) {
+            json.captured = { name: reason.name, message: reason.message, stack: reason.stack, cause: reason.cause, errors: reason.innerErrors };
+        }
+        if (reason instanceof CancelledError) {
+            json.captured = captureThrowable(reason.reason);
+        }
+        if (reason instanceof RetryAttemptFailed || reason instanceof RecoveredError) {
+            json.error = ReasonRegistry.serialize(reason.error);
+        }
+        const fields = fieldsOf(reason);
+        if (fields) {
+            json.fields = fields;
+        }
+        return json;
+    }
+
+    /**
+     * Rebuilds a reason – including its metadata and nested causes – from its wire format.
+     */
+    public revive(json: SerializedReason): AReason {
+        const reviver = this._revivers.get(json.type);
+        const reason = reviver ? reviver(json) : placeholderFor(json);
+        Object.entries(json.metadata ?? {}).forEach(([key, value]) => reason.withMetadata(key, value));
+        if (reason instanceof AError) {
+            // Revivers of errors whose constructor records a cause (e.g. RetriesExhaustedError) have attached the leading ones already.
+            (json.causes ?? []).slice(reason.causes.length).forEach(cause => reason.causedBy(this.revive(cause)));
+        }
+        return reason;
+    }
+}
+
+function kindOf(reason: AReason): ReasonKind {
+    if (reason instanceof AError) return 'error';
+    if (reason instanceof AWarning) return 'warning';
+    if (reason instanceof ASuccess) return 'success';
+    return 'reason';
+}
+
+function fieldsOf(reason: AReason): Record<string, unknown> | undefined {
+    if (reason instanceof SchemaIssueError) return { segments: reason.segments.map(s => typeof s === 'symbol' ? String(s) : s), value: reason.value };
+    if (reason instanceof ValidationError) return { path: reason.path, code: reason.code, value: reason.value };
+    if (reason instanceof TimeoutError) return { timeoutMs: reason.timeoutMs };
+    if (reason instanceof RetriesExhaustedError) return { attempts: reason.attempts };
+    if (reason instanceof CircuitOpenError) return { circuitName: reason.circuitName, retryAfterMs: reason.retryAfterMs };
+    if (reason instanceof CompensationFailedError || reason instanceof CompensationSucceeded) return { stepName: reason.stepName };
+    if (reason instanceof RetryAttemptFailed) return { attempt: reason.attempt };
+    if (reason instanceof ErrorBudgetExceededError) return { failed: reason.failed, processed: reason.processed };
+    return undefined;
+}
+
+function isPlaceholder(reason: AReason): reason is UnknownError | UnknownWarning | UnknownSuccess | UnknownReason {
+    return reason instanceof UnknownError || reason instanceof UnknownWarning
+        || reason instanceof UnknownSuccess || reason instanceof UnknownReason;
+}
+
+function placeholderFor(json: SerializedReason): AReason {
+    switch (json.kind) {
+        case 'error': return new UnknownError(json.type, json.message);
+        case 'warning': return new UnknownWarning(json.type, json.message);
+        case 'success': return new UnknownSuccess(json.type, json.message);
+        default: return new UnknownReason(json.type, json.message);
+    }
+}
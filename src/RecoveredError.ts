@@ -0,0 +1,20 @@
+import { AError } from "./AError";
+import { AReason } from "./AReason";
+
+/**
+ * Keeps an error that was recovered from (by `recover` or `orElse`) visible in a result's history
+ * without failing the result.
+ */
+export class RecoveredError extends AReason {
+    private _error: AError;
+    /**
+     * @param error The error that was recovered from.
+     */
+    constructor(error: AError) {
+        super(error.message);
+        this._error = error;
+    }
+    get error(): AError {
+        return this._error;
+    }
+}
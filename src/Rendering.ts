@@ -0,0 +1,106 @@
+import { AError } from './AError';
+import { AReason } from './AReason';
+import { ASuccess } from './ASuccess';
+import { AWarning } from './AWarning';
+import { safeStringify } from './CapturedThrowable';
+import { RecoveredError } from './RecoveredError';
+import { Result } from './Result';
+
+/**
+ * Options accepted by {@link renderTree}.
+ */
+export interface RenderOptions {
+    /** `text` (the default) draws the tree with box-drawing characters; `markdown` renders it as a nested list. */
+    format?: 'text' | 'markdown';
+    /** The number of contingency levels rendered below the root; deeper ones are only counted. Unlimited when omitted. */
+    depth?: number;
+    /** Colours a `text` tree with ANSI escape codes. Defaults to `false`. */
+    colors?: boolean;
+    /** Truncates the rendered state to this many characters. Defaults to `80`. */
+    maxStateLength?: number;
+}
+
+interface TreeNode {
+    label: string;
+    children: TreeNode[];
+}
+
+type Style = 'success' | 'error' | 'warning' | 'muted';
+
+const ansi: Record<Style, [number, number]> = { success: [32, 39], error: [31, 39], warning: [33, 39], muted: [2, 22] };
+
+/**
+ * Renders `result` as an indented tree for logs, terminals or issue reports: its routine name and outcome,
+ * a summary of its state, its reasons (with class names, messages and causes) and its contingency children.
+ *
+ * @param result The root of the tree to render.
+ * @param [options] The `format`, the contingency `depth`, `colors` and `maxStateLength`.
+ */
+export function renderTree(result: Result, options: RenderOptions = {}): string {
+    const markdown = options.format === 'markdown';
+    const style = (text: string, kind: Style) => options.colors && !markdown ? `\u001b[${ansi[kind][0]}m${text}\u001b[${ansi[kind][1]}m` : text;
+    const code = (text: string) => markdown ? `\`${text}\`` : text;
+
+    const reasonNode = (reason: AReason): TreeNode => ({
+        label: style(`${symbol(reason)} ${code(reason.constructor.name)}: ${reason.message}`, reasonStyle(reason)),
+        children: reason instanceof AError ? reason.causes.map(cause => {
+            const node = reasonNode(cause);
+            return { ...node, label: `caused by ${node.label}` };
+        }) : []
+    });
+
+    const resultNode = (node: Result, depth: number): TreeNode => {
+        const outcome = node.isCancelled ? style('cancelled', 'warning') : node.isSuccess ? style('successful', 'success') : style('failed', 'error');
+        const name = markdown ? `**${node.routineName}**` : node.routineName;
+        const children: TreeNode[] = [];
+        const state = readState(node);
+        if (state) children.push({ label: style(`state: ${code(truncate(safeStringify(state.value), options.maxStateLength ?? 80))}`, 'muted'), children: [] });
+        children.push(...node.reasons.map(reasonNode));
+        const contingencies = node.children;
+        if (depth < (options.depth ?? Infinity)) {
+            children.push(...contingencies.map(child => {
+                const childNode = resultNode(child as Result, depth + 1);
+                return { ...childNode, label: `↳ ${childNode.label}` };
+            }));
+        }
+        else if (contingencies.length > 0) {
+            children.push({ label: style(`… ${contingencies.length} more contingenc${contingencies.length === 1 ? 'y' : 'ies'}`, 'muted'), children: [] });
+        }
+        return { label: `${name} (${outcome})`, children };
+    };
+
+    const root = resultNode(result, 0);
+    return (markdown ? renderMarkdown(root, 0) : [root.label, ...renderText(root.children, '')]).join('\n');
+}
+
+function renderText(nodes: TreeNode[], indent: string): string[] {
+    return nodes.flatMap((node, index) => {
+        const last = index === nodes.length - 1;
+        return [`${indent}${last ? '└─ ' : '├─ '}${node.label}`, ...renderText(node.children, indent + (last ? '   ' : '│  '))];
+    });
+}
+
+function renderMarkdown(node: TreeNode, level: number): string[] {
+    return [`${'  '.repeat(level)}- ${node.label}`, ...node.children.flatMap(child => renderMarkdown(child, level + 1))];
+}
+
+function readState(result: Result): { value: unknown } | undefined {
+    try {
+        return { value: result.currentState };
+    }
+    catch {
+        return undefined;
+    }
+}
+
+function truncate(text: string, maxLength: number): string {
+    return text.length <= maxLength ? text : `${text.slice(0, Math.max(maxLength - 1, 0))}…`;
+}
+
+function symbol(reason: AReason): string {
+    return reason instanceof AError ? '✗' : reason instanceof AWarning ? '!' : reason instanceof RecoveredError ? '↺' : reason instanceof ASuccess ? '✓' : '•';
+}
+
+function reasonStyle(reason: AReason): Style {
+    return reason instanceof AError ? 'error' : reason instanceof AWarning ? 'warning' : reason instanceof ASuccess ? 'success' : 'muted';
+}
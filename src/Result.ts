@@ -1,7 +1,33 @@
 import { AReason } from './AReason';
-import { AError } from './AError';
+import { AError, ErrorClass, ErrorMatcher, toErrorPredicate } from './AError';
+import { RecoveredError } from './RecoveredError';
 import { ExceptionalError } from './ExceptionalError';
 import { PromiseRejection } from './PromiseRejection';
+import { AsyncResult } from './AsyncResult';
+import { ASuccess } from './ASuccess';
+import { AWarning } from './AWarning';
+import { FailurePolicies, FailurePolicy } from './FailurePolicy';
+import { ReasonRegistry, SerializedReason } from './ReasonRegistry';
+import { AsyncOptions, AsyncStepOptions, AttemptOptions, StateSnapshot, StepEntry, StepKind, StepOptions, toStepOptions } from './Step';
+import { hasInstrumentations, Instrumentation, notifyInstrumentations } from './Instrumentation';
+import { isRetryable, retryDelay, sleepFor } from './RetryPolicy';
+import { RetryAttemptFailed } from './RetryAttemptFailed';
+import { RetriesExhaustedError } from './RetriesExhaustedError';
+import { anySignal, openAbortScope, timeoutSignal, toAbortError } from './Cancellation';
+import { CancelledError } from './CancelledError';
+import { TimeoutError } from './TimeoutError';
+import { Routine, RoutineOptions, RoutineResults, RoutineStates, runRoutines } from './Routines';
+import { AsyncValidationRule, readPath, ValidationRule } from './Validation';
+import { ValidationError } from './ValidationError';
+import { SchemaIssueError } from './SchemaIssueError';
+import { StandardSchema, StandardSchemaResult, toSchemaIssueErrors } from './Schema';
+import { ErrorMatch, MatchHandlers } from './ErrorMatch';
+import { exceedsBudget, ResultStream, StreamOptions, StreamPipeline, StreamSource, StreamSummary, streamResults } from './Streams';
+import { ErrorBudgetExceededError } from './ErrorBudgetExceededError';
+import { CompensationFailedError } from './CompensationFailedError';
+import { CompensationSucceeded } from './CompensationSucceeded';
+import { CircuitOpenError } from './CircuitOpenError';
+import { renderTree } from './Rendering';
 
 export abstract class AResult {
 
@@ -9,13 +35,28 @@ export abstract class AResult {
     protected _reasons: AReason[] = [];
     /** Single‑slot cache for the latest successful value. */
     protected stateCache: any[] = [];
-    /** `true` when *no* {@link AError} has been recorded. */
+    /** Decides which reasons turn this result into a failure. */
+    protected failurePolicy: FailurePolicy = FailurePolicies.errorsOnly;
+    /** Instrumentation notified in addition to the globally registered ones. */
+    protected instrumentations: Instrumentation[] = [];
+    /** Cancels the pipeline when aborted. */
+    protected signal?: AbortSignal;
+    /** `true` once the cancellation of the pipeline has been recorded. */
+    protected cancelled = false;
+    /** `true` when the {@link failurePolicy} does not consider this result failed. */
     public get isSuccess(): boolean {
         return !this.isFailed;
     }
-    /** `true` when **at least one** {@link AError} exists. */
+    /** `true` when the {@link failurePolicy} considers this result failed – by default when **at least one** {@link AError} exists. */
     public get isFailed(): boolean {
-        return this._reasons.some((r) => r instanceof AError);
+        return this.failurePolicy(this._reasons);
+    }
+    /**
+     * `true` once the pipeline recorded its cancellation: its `AbortSignal` aborted while a step ran or before a later
+     * step started. Every later step is skipped. Aborts after the pipeline settled never change its outcome.
+     */
+    public get isCancelled(): boolean {
+        return this.cancelled;
     }
 
     private _routineName: string = "";
@@ -28,7 +69,7 @@ export abstract class AResult {
     }
 
     private _parent?: AResult;
-    private _child?: AResult;
+    private _children: AResult[] = [];
 
     /**
      * The parent result that created this result (usually as to execute a contingent routine)
@@ -38,14 +79,52 @@ export abstract class AResult {
     }
 
     /**
-     * A child that was created as a result of execution of a contingent path
+     * The most recent child created as a result of execution of a contingent path
      */
     public get child(): AResult | undefined {
-        return this._child;
+        return this._children[this._children.length - 1];
+    }
+
+    /**
+     * Every child created as a result of execution of a contingent path, in creation order.
+     */
+    public get children(): AResult[] {
+        return this._children.slice();
+    }
+
+    /**
+     * Attaches a contingency child to this result.
+     */
+    protected addChild(child: AResult): void {
+        this._children.push(child);
+    }
+
+    /**
+     * Records `reasons` and notifies instrumentation about each of them.
+     */
+    protected addReason(...reasons: AReason[]): void {
+        for (const reason of reasons) {
+            this._reasons.push(reason);
+            this.notify('onReasonAdded', this, reason);
+        }
     }
 
-    protected set child(child: AResult) {
-        this._child = child;
+    /**
+     * Invokes `hook` on the global and this result's {@link Instrumentation | instrumentation}.
+     */
+    protected notify<K extends keyof Instrumentation>(hook: K, ...args: Parameters<NonNullable<Instrumentation[K]>>): void {
+        notifyInstrumentations(this.instrumentations, hook, ...args);
+    }
+
+    /** Journal of the steps executed on this result, each with the contingency children it spawned and the state it produced. */
+    protected journal: { entry: StepEntry, spawned: AResult[], produced?: { state: unknown } }[] = [];
+
+    /**
+     * Journal of every chaining operation executed on this result, in execution order.
+     * Steps executed by contingency children follow the step that spawned them.
+     */
+    public get steps(): StepEntry[] {
+        return this.journal.flatMap(({ entry, spawned }) => [entry, ...spawned.flatMap(child => child.steps)]);
     }
 
     /**
@@ -55,10 +134,146 @@ export abstract class AResult {
     constructor(routineName: string, parent?: AResult) {
         this._routineName = routineName;
         this._parent = parent;
+        if (parent) {
+            this.failurePolicy = parent.failurePolicy;
+            this.instrumentations = parent.instrumentations.slice();
+            this.signal = parent.signal;
+        }
 
     }
 
 }
+/**
+ * The policy of a revived result whose serialised policy judged its reasons differently from {@link FailurePolicies.errorsOnly}:
+ * the revived reasons keep their verdict – failing the result, or being tolerated – while reasons added later are judged by
+ * {@link FailurePolicies.errorsOnly}.
+ */
+function keepVerdict(failed: boolean, revived: AReason[]): FailurePolicy {
+    const judged = new Set(revived);
+    return reasons => (failed && reasons.some(reason => judged.has(reason)))
+        || FailurePolicies.errorsOnly(failed ? reasons : reasons.filter(reason => !judged.has(reason)));
+}
+
+/** Whether `value` is a plain object – an object literal or one without a prototype – rather than an array or class instance. */
+function isPlainObject(value: unknown): value is object {
+    if (typeof value !== 'object' || value === null) return false;
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+/** Captures a throwing or rejecting guard predicate of `okIfAsync`/`failIfAsync` as an {@link ExceptionalError}, like their sync counterparts. */
+const guardFailure = (reason: unknown): AError => new ExceptionalError(reason);
+
+/** The symbol Node's `util.inspect` looks up for custom rendering; registered globally, so `util` need not be imported. */
+const inspectCustom: unique symbol = Symbol.for('nodejs.util.inspect.custom');
+
+/**
+ * Maps a tuple of results to the tuple of their states, as produced by {@link Result.merge}.
+ */
+export type MergedStates<T extends Result<any>[]> = { [K in keyof T]: T[K] extends Result<infer S> ? S : never };
+
+/**
+ * The union of the error types of a tuple of results, as carried by {@link Result.merge}.
+ */
+export type MergedErrors<T extends Result<any>[]> = { [K in keyof T]: T[K] extends Result<any, infer E> ? E : never }[number];
+
+/**
+ * The union of the error types of a union of results, e.g. of the results delegated to in {@link Result.gen}.
+ */
+export type ResultErrors<T extends Result<any, AError>> = T extends Result<any, infer E> ? E : never;
+
+/**
+ * The state after a {@link Result.bindTo | bindTo} or {@link Result.let | let} step: the record of named values bound so far
+ * (the previous state when it is a plain object, an empty record otherwise), with `K` bound to `V`.
+ */
+export type WithBinding<TState, K extends string, V> = {
+    [P in keyof BindingContext<TState> | K]: P extends K ? V : BindingContext<TState>[P & keyof BindingContext<TState>]
+};
+
+/**
+ * The record a {@link Result.bindTo | bindTo} step extends: the state when it is a plain object, an empty record otherwise.
+ * Arrays, functions and the built-in classes are never extended; neither are instances of other classes at runtime,
+ * which the type system cannot tell apart from plain objects.
+ */
+export type BindingContext<TState> = TState extends NonRecord ? {} : TState extends object ? TState : {};
+
+/** The object types a {@link BindingContext} never extends. */
+type NonRecord = readonly unknown[] | Function | Date | RegExp | Error | Promise<unknown> | ReadonlyMap<unknown, unknown> | ReadonlySet<unknown>
+    | WeakMap<object, unknown> | WeakSet<object> | ArrayBuffer | ArrayBufferView;
+
+/**
+ * The value bound by {@link Result.bindTo}: the state of a returned result, the returned value otherwise.
+ */
+export type BoundValue<V> = V extends Result<infer S, any> ? S : V;
+
+/**
+ * The errors a returned result adds in {@link Result.bindTo}.
+ */
+export type BoundErrors<V> = V extends Result<any, infer E> ? E : never;
+
+/**
+ * The errors an async step may record on its own: a rejection or exception, an elapsed timeout,
+ * a cancellation of the pipeline, exhausted retries or an open circuit.
+ */
+export type AsyncStepError = ExceptionalError | PromiseRejection | TimeoutError | CancelledError | RetriesExhaustedError | CircuitOpenError;
+
+/**
+ * The errors left by {@link Result.recover} with an error class: only an exception thrown by the fallback
+ * when every possible error is of that class, the original errors (and that exception) otherwise.
+ * Like every TypeScript type, error classes are compared structurally: classes without distinguishing members are interchangeable.
+ */
+export type RecoveredErrors<TError extends AError, TMatch extends AError> =
+    [TError] extends [never] ? never : [TError] extends [TMatch] ? ExceptionalError : TError | ExceptionalError;
+
+/**
+ * Version of the {@link SerializedResult} wire format produced by {@link Result.toJSON}.
+ * {@link Result.fromJSON} still reads version `1`, which carried at most one contingency child.
+ */
+export const RESULT_WIRE_VERSION = 2;
+
+/**
+ * Wire format of a {@link Result}, including its contingency tree.
+ */
+export interface SerializedResult {
+    version: 1 | typeof RESULT_WIRE_VERSION;
+    routineName: string;
+    /** `false` when no state was ever cached, so that `undefined` states survive the round trip. */
+    hasState: boolean;
+    state?: unknown;
+    reasons: SerializedReason[];
+    /**
+     * The outcome as the result's {@link FailurePolicy} decided it; policies themselves are not serialised.
+     * Absent in results serialised before it was added, which are judged by {@link FailurePolicies.errorsOnly}.
+     */
+    failed?: boolean;
+    /** `true` when the result recorded its cancellation. */
+    cancelled?: boolean;
+    /** The contingency children, in creation order. */
+    children?: SerializedResult[];
+    /** Version `1` only – the single contingency child. */
+    child?: SerializedResult;
+}
+
+/**
+ * A contingent routine run by {@link Result.failIf} and {@link Result.withContingency}.
+ */
+export interface Contingency<TState> {
+    /** Executes the contingent routine on the child result it is handed. */
+    func: (nextResult: Result<TState>) => void;
+    /** A descriptive name for the routine, useful for logging or debugging. */
+    routineName: string;
+}
+
+/**
+ * A contingent routine run by {@link Result.failIfAsync} and {@link Result.withContingencyAsync}; a returned promise is awaited.
+ */
+export interface AsyncContingency<TState> {
+    /** Executes the contingent routine on the child result it is handed. */
+    func: (nextResult: Result<TState>) => void | PromiseLike<unknown>;
+    /** A descriptive name for the routine, useful for logging or debugging. */
+    routineName: string;
+}
+
 /**
  * `Result` represents the outcome **and** the flowing state of a pipeline that can
  * short‑circuit on the first error ("railway‑oriented programming").
@@ -66,8 +281,33 @@ export abstract class AResult {
  * A `Result` starts out *successful* and accumulates {@link AReason | reasons};
  * any {@link AError | error} automatically flips the result into the *failed* state.
  *
+ * `TError` is the union of the error types the pipeline may record, as far as the compiler can tell:
+ * entry points and guards add the errors they can produce, recovery operations remove them.
+ * It defaults to {@link AError}, which leaves {@link errors} untyped.
+ *
  */
-export class Result<TState = any> extends AResult {
+export class Result<TState = any, TError extends AError = AError> extends AResult {
+
+    /** Counts the writes to {@link stateCache}, so the journal can tell which steps produced a state. */
+    private stateWrites = 0;
+
+    /** Compensating actions of the compensated steps that ran, in registration order; each is removed once run. */
+    private compensations: { stepName?: string, compensate: () => void | PromiseLike<void> }[] = [];
+
+    /** `true` in {@link withCompensationOnFailure} mode. */
+    private compensatesOnFailure = false;
+
+    /** Settles once the compensations started by a failed synchronous step have run. */
+    private compensating?: Promise<void>;
+
+    /** Async work in flight on this result; instrumentation learns that the pipeline settled once none is left. */
+    private pendingWork = 0;
+
+    /** Bumped whenever the pipeline may settle, so a scheduled settle notification can tell that it moved on. */
+    private activity = 0;
+
+    /** Releases the signals and timers {@link withSignal} and {@link withTimeout} set up, once the pipeline settled. */
+    private signalReleases: (() => void)[] = [];
 
     /**
      * The most recent value produced by the pipeline.
@@ -86,8 +326,42 @@ export class Result<TState = any> extends AResult {
         return this._reasons.slice();
     }
     /** Convenience subset of {@link reasons} limited to errors. */
-    public get errors(): AError[] {
-        return this._reasons.filter((r) => r instanceof AError);
+    public get errors(): TError[] {
+        return this.reasons.filter((r): r is TError => r instanceof AError);
+    }
+    /** Convenience subset of {@link reasons} limited to successes. */
+    public get successes(): ASuccess[] {
+        return this.reasons.filter((r) => r instanceof ASuccess);
+    }
+    /** Convenience subset of {@link reasons} limited to warnings. */
+    public get warnings(): AWarning[] {
+        return this.reasons.filter((r) => r instanceof AWarning);
+    }
+    /**
+     * `true` when any error – including the nested {@link AError.causes | causes} of recorded errors – matches.
+     *
+     * @param matcher An {@link AError} subclass, or a predicate evaluated against each error.
+     */
+    public hasError<TMatch extends AError>(matcher: ErrorMatcher<TMatch>): boolean {
+        return this.findError(matcher) !== undefined;
+    }
+    /**
+     * Searches the recorded errors depth‑first, descending into their nested {@link AError.causes | causes}.
+     *
+     * @param matcher An {@link AError} subclass, or a predicate evaluated against each error.
+     * @returns The first matching error, or `undefined` when none matches.
+     */
+    public findError<TMatch extends AError>(matcher: ErrorMatcher<TMatch>): TMatch | undefined {
+        const isMatch = toErrorPredicate(matcher);
+        const search = (errors: AError[]): AError | undefined => {
+            for (const error of errors) {
+                if (isMatch(error)) return error;
+                const nested = search(error.causes.filter((c): c is AError => c instanceof AError));
+                if (nested) return nested;
+            }
+            return undefined;
+        };
+        return search(this.errors) as TMatch | undefined;
     }
     /**
    * Executes `action` and wraps its outcome into a new **root** `Result`.
@@ -98,14 +372,14 @@ export class Result<TState = any> extends AResult {
    * @param action A synchronous delegate that may return a value and/or throw.
    * @param routineName A descriptive name for the routine, useful for logging or debugging.
    */
-    public static try<T>(action: () => T, routineName: string): Result<T> {
-        const result = new Result<T>(routineName);
+    public static try<T>(action: () => T, routineName: string): Result<T, ExceptionalError> {
+        const result = Result.start<T, ExceptionalError>(routineName);
 
         try {
             result.cacheState(action());
         }
         catch (e) {
-            result._reasons.push(new ExceptionalError(e));
+            result.addReason(new ExceptionalError(e));
         }
         finally {
             return result;
@@ -117,32 +391,301 @@ export class Result<TState = any> extends AResult {
    * • If `action` throws, the exception is captured as an {@link ExceptionalError}.
    * • If it completes successfully, the awaited outcome is stored as {@link currentState}.
    *
-   * @param action A synchronous delegate that may return a value and/or throw.
+   * @param action A delegate returning a promise; it receives an `AbortSignal` aborted on timeout or cancellation.
    * @param routineName A descriptive name for the routine, useful for logging or debugging.
+   * @param [options] {@link AsyncOptions}: a {@link RetryPolicy} for flaky actions, a timeout,
+   *                  or an `AbortSignal` cancelling the whole pipeline.
+   *
+   * @returns An {@link AsyncResult} that can be chained further and awaited for the final `Result`.
    */
-    public static async tryAsync<T>(action: () => Promise<T>, routineName: string): Promise<Result<T>> {
-        const result = new Result<T>(routineName);
+    public static tryAsync<T>(action: (signal: AbortSignal) => Promise<T>, routineName: string, options: AsyncOptions = {}): AsyncResult<T, AsyncStepError> {
+        return new AsyncResult((async () => {
+            const result = Result.start<T, AsyncStepError>(routineName);
+            if (options.signal) result.withSignal(options.signal);
+            const outcome = await result.inFlight(result.attemptAsync(action, options));
+            if (outcome) result.cacheState(outcome.value);
+            return result;
+        })());
+    }
+    /**
+     * Creates a new **root** `Result` that has already succeeded with `value` as its {@link currentState}.
+     *
+     * @param value The known successful outcome.
+     * @param routineName A descriptive name for the routine, useful for logging or debugging.
+     */
+    public static ok<T>(value: T, routineName: string): Result<T, never> {
+        const result = Result.start<T, never>(routineName);
+        result.cacheState(value);
+        return result;
+    }
+    /**
+     * Creates a new **root** `Result` that has already failed with the given error(s).
+     *
+     * @param error A single error or a list of errors explaining the failure.
+     * @param routineName A descriptive name for the routine, useful for logging or debugging.
+     */
+    public static fail<T = any, TError extends AError = AError>(error: TError | TError[], routineName: string): Result<T, TError> {
+        const result = Result.start<T, TError>(routineName);
+        result.addReason(...(Array.isArray(error) ? error : [error]));
+        return result;
+    }
+    /**
+     * Combines several independent results into a new **root** `Result`.
+     *
+     * • The merged {@link reasons} are the union of every input's reasons, in input order.
+     * • When every input succeeded, {@link currentState} is the tuple of their states (`undefined` for inputs without state).
+     * • When any input failed, the merged result is failed and carries no state.
+     *
+     * @param results The results to combine.
+     */
+    public static merge<T extends Result<any, AError>[]>(...results: T): Result<MergedStates<T>, MergedErrors<T>> {
+        const merged = Result.start<MergedStates<T>, MergedErrors<T>>(results.map(r => r.routineName).join(" + "));
+        results.forEach(r => merged.addReason(...r.reasons));
+        if (merged.isSuccess) {
+            merged.cacheState(results.map(r => r.stateCache[0]) as MergedStates<T>);
+        }
+        return merged;
+    }
+    /**
+     * Runs independent routines in parallel and succeeds only if **every** routine succeeds.
+     *
+     * • When every routine succeeded, {@link currentState} is the tuple of their states.
+     * • Otherwise the combined result is failed, carrying the reasons of every routine.
+     *
+     * Collected reasons are tagged with the `routineName` metadata of the routine that recorded them (unless already tagged).
+     *
+     * @param routines The routines to run; each produces its own named result.
+     * @param routineName A descriptive name for the combined routine, useful for logging or debugging.
+     * @param [options] A `concurrency` limit and an `AbortSignal` cancelling every routine.
+     * @throws {Error}  If `options.concurrency` is lower than `1`.
+     */
+    public static all<T extends Routine[]>(routines: [...T], routineName: string, options: RoutineOptions = {}): AsyncResult<RoutineStates<T>> {
+        return Result.combine(routines, routineName, options, undefined, (combined, { results }) => {
+            results.forEach(result => combined.collect(result!));
+            if (combined.isSuccess) combined.cacheState(results.map(result => result!.stateCache[0]) as RoutineStates<T>);
+        });
+    }
+    /**
+     * Runs independent routines in parallel and waits for all of them, whatever their outcome.
+     * The combined result always succeeds (unless cancelled); {@link currentState} is the tuple of the routines' results.
+     *
+     * @param routines The routines to run; each produces its own named result.
+     * @param routineName A descriptive name for the combined routine, useful for logging or debugging.
+     * @param [options] A `concurrency` limit and an `AbortSignal` cancelling every routine.
+     * @throws {Error}  If `options.concurrency` is lower than `1`.
+     */
+    public static allSettled<T extends Routine[]>(routines: [...T], routineName: string, options: RoutineOptions = {}): AsyncResult<RoutineResults<T>> {
+        return Result.combine(routines, routineName, options, undefined, (combined, { results }) => {
+            combined.cacheState(results as RoutineResults<T>);
+        });
+    }
+    /**
+     * Runs independent routines in parallel until the **first one succeeds**; the others are aborted and no more are started.
+     *
+     * • The combined result adopts the state and reasons of the first successful routine.
+     * • When none succeeds, it is failed, carrying the reasons of every routine (tagged as by {@link all}).
+     *
+     * @param routines The routines to run; each produces its own named result.
+     * @param routineName A descriptive name for the combined routine, useful for logging or debugging.
+     * @param [options] A `concurrency` limit and an `AbortSignal` cancelling every routine.
+     * @throws {Error}  If `routines` is empty or `options.concurrency` is lower than `1`.
+     */
+    public static any<T extends Routine[]>(routines: [...T], routineName: string, options: RoutineOptions = {}): AsyncResult<RoutineStates<T>[number]> {
+        return Result.combine(routines, routineName, options, result => result.isSuccess, (combined, { results, decisive }) => {
+            (decisive ? [decisive] : results).forEach(result => combined.collect(result!));
+            if (decisive?.stateCache.length === 1) combined.cacheState(decisive.stateCache[0]);
+        });
+    }
+    /**
+     * Runs independent routines in parallel and adopts the state and reasons of the **first one to settle**, successful or not.
+     * The others are aborted and no more are started.
+     *
+     * @param routines The routines to run; each produces its own named result.
+     * @param routineName A descriptive name for the combined routine, useful for logging or debugging.
+     * @param [options] A `concurrency` limit and an `AbortSignal` cancelling every routine.
+     * @throws {Error}  If `routines` is empty or `options.concurrency` is lower than `1`.
+     */
+    public static race<T extends Routine[]>(routines: [...T], routineName: string, options: RoutineOptions = {}): AsyncResult<RoutineStates<T>[number]> {
+        return Result.combine(routines, routineName, options, () => true, (combined, { decisive }) => {
+            combined.collect(decisive!);
+            if (decisive!.stateCache.length === 1) combined.cacheState(decisive!.stateCache[0]);
+        });
+    }
+    /**
+     * Runs `pipeline` over every item of `source` and yields each item's (named) result as an async iterable.
+     * Items are pulled lazily, at most `options.concurrency` at a time, and yielded in source order unless `options.ordered` is `false`.
+     *
+     * • Items whose pipeline throws or rejects yield failed results named after their position, as in {@link all}.
+     * • Once more items failed than `options.errorBudget` allows, no further item is started and the running ones are aborted.
+     * • {@link ResultStream.summary} settles with a **root** `Result` whose state is a {@link StreamSummary}; its errors are
+     *   those of every failed item, tagged with their `itemIndex` metadata, followed by an {@link ErrorBudgetExceededError}
+     *   when the budget stopped the stream. A source that throws or rejects is recorded as in {@link try} and {@link tryAsync}.
+     *
+     * @param source The items to process, as an iterable or an async iterable.
+     * @param pipeline Turns an item – with its index and an `AbortSignal` – into its own result.
+     * @param routineName A descriptive name for the stream, useful for logging or debugging.
+     * @param [options] A `concurrency` limit, the output order, an `errorBudget` and an `AbortSignal` stopping the stream.
+     * @throws {Error}  If `options.concurrency` is lower than `1`.
+     */
+    public static stream<TItem, T>(source: StreamSource<TItem>, pipeline: StreamPipeline<TItem, T>, routineName: string, options: StreamOptions = {})
+        : ResultStream<T> {
+        const concurrency = options.concurrency ?? 1;
+        if (!(concurrency >= 1)) {
+            throw new Error(`Concurrency must be at least 1, got ${concurrency}.`);
+        }
+        const summary = Result.start<StreamSummary>(routineName);
+        if (options.signal) summary.withSignal(options.signal);
+        const counts = { processed: 0, succeeded: 0, failed: 0 };
+        let settleSummary!: (summary: Result<StreamSummary>) => void;
+        const settled = summary.inFlight(new Promise<Result<StreamSummary>>(resolve => settleSummary = resolve));
+        const results = streamResults(source, pipeline, routineName, options, (result, index) => {
+            counts.processed++;
+            if (result.isSuccess) {
+                counts.succeeded++;
+                return true;
+            }
+            counts.failed++;
+            // Tag copies: the item's errors may be shared by several items, or still be referenced by the caller.
+            result.errors.forEach(error => summary.addReason(error.hasMetadata('itemIndex') ? error : error.copy().withMetadata('itemIndex', index)));
+            if (!exceedsBudget(options.errorBudget, counts.failed, counts.processed)) return true;
+            summary.addReason(new ErrorBudgetExceededError(counts.failed, counts.processed));
+            return false;
+        }, (exhausted, failure) => {
+            if (failure) summary.addReason(failure);
+            summary.observeCancellation();
+            summary.cacheState({ ...counts, stoppedEarly: !exhausted || failure !== undefined });
+            settleSummary(summary);
+        });
+        return new ResultStream(results, settled);
+    }
+    /**
+     * Runs a generator as a pipeline ("do-notation"): each `yield* result.yield()` evaluates to the result's {@link currentState},
+     * so values of several earlier steps stay in scope without nesting closures.
+     *
+     * • The reasons of every yielded result are recorded on the new **root** `Result`.
+     * • Yielding a failed result short-circuits: the generator is closed (running its `finally` blocks) and its errors are kept.
+     * • An exception thrown by the generator is captured as an {@link ExceptionalError}, as in {@link try}.
+     * • Otherwise the generator's return value becomes {@link currentState}.
+     *
+     * @param body A generator function delegating to results with `yield* result.yield()`.
+     * @param routineName A descriptive name for the routine, useful for logging or debugging.
+     */
+    public static gen<T, TYield extends Result<any, AError> = never>(body: () => Generator<TYield, T, unknown>, routineName: string)
+        : Result<T, ResultErrors<TYield> | ExceptionalError> {
+        const result = Result.start<T, ResultErrors<TYield> | ExceptionalError>(routineName);
         try {
-            await action().then(value => result.cacheState(value)).catch(reason => result._reasons.push(new PromiseRejection(reason)));
+            const iterator = body();
+            let next = iterator.next();
+            while (!next.done) {
+                result.addReason(...next.value.reasons);
+                if (next.value.isFailed) {
+                    iterator.return(undefined as T);
+                    return result;
+                }
+                next = iterator.next();
+            }
+            result.cacheState(next.value);
         }
         catch (e) {
-            result._reasons.push(new ExceptionalError(e));
+            result.addReason(new ExceptionalError(e));
         }
-        finally {
+        return result;
+    }
+
+    /**
+     * Runs an async generator as a pipeline. See {@link gen}: both results and {@link AsyncResult}s can be
+     * delegated to with `yield* result.yield()`, and a rejection is captured as a {@link PromiseRejection}, as in {@link tryAsync}.
+     *
+     * @param body An async generator function delegating to results with `yield* result.yield()`.
+     * @param routineName A descriptive name for the routine, useful for logging or debugging.
+     */
+    public static genAsync<T, TYield extends Result<any, AError> = never>(body: () => AsyncGenerator<TYield, T, unknown>, routineName: string)
+        : AsyncResult<T, ResultErrors<TYield> | PromiseRejection> {
+        return new AsyncResult((async () => {
+            const result = Result.start<T, ResultErrors<TYield> | PromiseRejection>(routineName);
+            try {
+                const iterator = body();
+                let next = await result.inFlight(iterator.next());
+                while (!next.done) {
+                    result.addReason(...next.value.reasons);
+                    if (next.value.isFailed) {
+                        await result.inFlight(iterator.return(undefined as T));
+                        return result;
+                    }
+                    next = await result.inFlight(iterator.next());
+                }
+                result.cacheState(next.value);
+            }
+            catch (e) {
+                result.addReason(new PromiseRejection(e));
+            }
             return result;
+        })());
+    }
+
+    /**
+     * Revives a `Result` – reasons, state, routine name, outcome and contingency tree – from the output of {@link toJSON}.
+     * Failure policies are not serialised: a revived result reads as failed exactly when the original did, and judges
+     * reasons added afterwards by {@link FailurePolicies.errorsOnly} unless {@link withFailurePolicy} sets its policy again.
+     *
+     * @param json The wire format, as an object or a JSON string.
+     * @param [registry] Revives concrete reason classes; unknown reason types come back as placeholders.
+     * @throws {Error}  If `json` was produced by an unsupported wire format version.
+     */
+    public static fromJSON<T = any>(json: SerializedResult | string, registry: ReasonRegistry = ReasonRegistry.withDefaults()): Result<T> {
+        const parsed: SerializedResult = typeof json === 'string' ? JSON.parse(json) : json;
+        if (parsed.version !== 1 && parsed.version !== RESULT_WIRE_VERSION) {
+            throw new Error(`Unsupported result wire format version '${parsed.version}'. Expected version 1 or ${RESULT_WIRE_VERSION}.`);
         }
+        return Result.revive<T>(parsed, registry);
+    }
+    /**
+     * Validates `input` against a {@link StandardSchema} and wraps the outcome into a new **root** `Result`.
+     *
+     * • If the input is valid, the schema's output becomes {@link currentState}.
+     * • Otherwise each issue is recorded as a {@link SchemaIssueError} carrying its path and message.
+     * • A schema that validates asynchronously is recorded as an {@link ExceptionalError}; use {@link parseAsync}.
+     *
+     * @param schema A schema of any library implementing the Standard Schema interface, or a hand-written one.
+     * @param input The value to validate, e.g. an inbound payload.
+     * @param routineName A descriptive name for the routine, useful for logging or debugging.
+     */
+    public static parse<T>(schema: StandardSchema<unknown, T>, input: unknown, routineName: string): Result<T, SchemaIssueError | ExceptionalError> {
+        const result = Result.start<T, SchemaIssueError | ExceptionalError>(routineName);
+        result.parseWith(schema, input);
+        return result;
+    }
+
+    /**
+     * Validates `input` against a {@link StandardSchema}, awaiting async validation. See {@link parse}.
+     *
+     * @param schema A schema of any library implementing the Standard Schema interface, or a hand-written one.
+     * @param input The value to validate, e.g. an inbound payload.
+     * @param routineName A descriptive name for the routine, useful for logging or debugging.
+     * @param [options] {@link AsyncOptions}; a rejected validation is captured as a {@link PromiseRejection}.
+     */
+    public static parseAsync<T>(schema: StandardSchema<unknown, T>, input: unknown, routineName: string, options: AsyncOptions = {})
+        : AsyncResult<T, SchemaIssueError | AsyncStepError> {
+        const result = Result.start<T, SchemaIssueError | AsyncStepError>(routineName);
+        if (options.signal) result.withSignal(options.signal);
+        return new AsyncResult(result.inFlight((async () => {
+            await result.parseWithAsync(schema, input, options);
+            return result;
+        })()));
     }
+
     /**
      * Chains another synchronous function into the pipeline.
      *
      * @param func  Delegate to execute.
      *              • If the previous step succeeded, its return value becomes the input when `func` has an arity of **1**.
      *              • If the previous step failed, `func` is **skipped**.
+     * @param [step] A step name or {@link StepOptions}, recorded in the {@link steps | journal}.
      *
      * @returns **this** so that calls can be fluently chained.
      */
-    public bind<TRet>(func: (() => TRet) | ((input: TState) => TRet)): Result<TRet> {
-        if (this.isSuccess) {
+    public bind<TRet>(func: (() => TRet) | ((input: TState) => TRet), step?: string | StepOptions): Result<TRet, TError | ExceptionalError> {
+        this.runStep('bind', step, () => {
             try {
                 const out = func.length === 0
                     ? (func as () => TRet)()
@@ -150,156 +693,1214 @@ export class Result<TState = any> extends AResult {
                 (this as unknown as Result<TRet>).cacheState(out);
             }
             catch (e) {
-                this._reasons.push(new ExceptionalError(e));
+                this.addReason(new ExceptionalError(e));
             }
-        }
-        return this as unknown as Result<TRet>;
+        });
+        return this as unknown as Result<TRet, TError | ExceptionalError>;
     }
 
     /**
      * Chains another synchronous function into the pipeline and captures its awaited outcome as {@link currentState}.
      *
      * @param func A delegate returning a promise.
-     *              • If the previous step succeeded, its return value becomes the input when `func` has an arity of **1**.
+     *              • If the previous step succeeded, its return value becomes the input when `func` has an arity of **1** or more;
+     *                the second argument is an `AbortSignal` aborted on timeout or cancellation.
      *              • If the previous step failed, `func` is **skipped**.
+     * @param [step] A step name or {@link AsyncStepOptions}, recorded in the {@link steps | journal};
+     *               its `retry` policy retries `func` when it throws or rejects, its `timeoutMs` bounds each attempt.
      *
-     * @returns **this** so that calls can be fluently chained.
+     * @returns An {@link AsyncResult} over **this** so that calls can be fluently chained.
      */
-    public async bindAsync<TRet>(func: (() => Promise<TRet>) | ((input: TState) => Promise<TRet>)): Promise<Result<TRet>> {
-        if (this.isSuccess) {
-            try {
-                const promise = func.length === 0
+    public bindAsync<TRet>(func: (() => Promise<TRet>) | ((input: TState, signal: AbortSignal) => Promise<TRet>), step?: string | AsyncStepOptions)
+        : AsyncResult<TRet, TError | AsyncStepError> {
+        return new AsyncResult(this.inFlight((async () => {
+            await this.runStepAsync('bindAsync', step, async () => {
+                const outcome = await this.attemptAsync(signal => func.length === 0
                     ? (func as () => Promise<TRet>)()
-                    : (func as (i: TState) => Promise<TRet>)(this.currentState);
+                    : (func as (i: TState, s: AbortSignal) => Promise<TRet>)(this.currentState, signal), toStepOptions(step));
+                if (outcome) (this as unknown as Result<TRet>).cacheState(outcome.value);
+            });
+            return this as unknown as Result<TRet, TError | AsyncStepError>;
+        })()));
+    }
 
-                await promise.then(value => (this as unknown as Result<TRet>).cacheState(value)).catch(reason => this._reasons.push(new PromiseRejection(reason)));
-            }
-            catch (e) {
-                this._reasons.push(new ExceptionalError(e));
-            }
-        }
-        return this as unknown as Result<TRet>;
+    /**
+     * Validates {@link currentState} against a {@link StandardSchema}; the schema's output becomes the new state.
+     * Each issue is recorded as a {@link SchemaIssueError}. See {@link Result.parse}.
+     *
+     * @param schema A schema of any library implementing the Standard Schema interface, or a hand-written one.
+     * @param [step] A step name or {@link StepOptions}, recorded in the {@link steps | journal}.
+     *
+     * @returns **this** for chaining.
+     */
+    public bindParse<TRet>(schema: StandardSchema<unknown, TRet>, step?: string | StepOptions): Result<TRet, TError | SchemaIssueError | ExceptionalError> {
+        this.runStep('bindParse', step, () => (this as unknown as Result<TRet>).parseWith(schema, this.currentState));
+        return this as unknown as Result<TRet, TError | SchemaIssueError | ExceptionalError>;
     }
 
     /**
-     * Keeps the pipeline successful **only if** the `predicate` evaluates to `true`.
+     * Validates {@link currentState} against a {@link StandardSchema}, awaiting async validation. See {@link bindParse}.
      *
-     * @param predicate  Condition to evaluate (optionally with `currentState` input).
-     * @param error      Error instance to push when the predicate fails.
+     * @param schema A schema of any library implementing the Standard Schema interface, or a hand-written one.
+     * @param [step] A step name or {@link AsyncStepOptions}, recorded in the {@link steps | journal}.
+     *
+     * @returns An {@link AsyncResult} over **this** for chaining.
+     */
+    public bindParseAsync<TRet>(schema: StandardSchema<unknown, TRet>, step?: string | AsyncStepOptions): AsyncResult<TRet, TError | SchemaIssueError | AsyncStepError> {
+        return new AsyncResult(this.inFlight((async () => {
+            await this.runStepAsync('bindParseAsync', step, () => (this as unknown as Result<TRet>).parseWithAsync(schema, this.currentState, toStepOptions(step)));
+            return this as unknown as Result<TRet, TError | SchemaIssueError | AsyncStepError>;
+        })()));
+    }
+
+    /**
+     * Binds the outcome of `func` to `key` in a record of named values, so later steps can read every value bound so far.
+     * The record extends the current state when it is a plain object (typically built by earlier `bindTo`/`let` steps),
+     * and starts out empty otherwise – for class instances such as a `Date` as well.
+     *
+     * @param key The name to bind.
+     * @param func Delegate producing the value from the record bound so far. When it returns a `Result`,
+     *             its reasons are recorded and its state is bound – or the pipeline fails with its errors.
+     *             Failure semantics are those of {@link bind}.
+     * @param [step] A step name or {@link StepOptions}, recorded in the {@link steps | journal}.
      *
      * @returns **this** for chaining.
      */
-    public okIf(predicate: (() => boolean) | ((input: TState) => boolean), error: AError): Result<TState> {
-        if (this.isSuccess) {
+    public bindTo<K extends string, V>(key: K, func: (() => V) | ((context: TState) => V), step?: string | StepOptions)
+        : Result<WithBinding<TState, K, BoundValue<V>>, TError | BoundErrors<V> | ExceptionalError> {
+        this.runStep('bindTo', step, () => {
             try {
-                const pass = predicate.length === 0
-                    ? (predicate as () => boolean)()
-                    : (predicate as (i: TState) => boolean)(this.currentState);
-                if (!pass) this._reasons.push(error);
+                this.bindOutcome(key, func.length === 0 ? (func as () => V)() : (func as (c: TState) => V)(this.currentState));
             }
             catch (e) {
-                this._reasons.push(new ExceptionalError(e));
+                this.addReason(new ExceptionalError(e));
             }
-        }
-        return this;
+        });
+        return this as unknown as Result<WithBinding<TState, K, BoundValue<V>>, TError | BoundErrors<V> | ExceptionalError>;
     }
 
     /**
-     * Keeps the pipeline successful **only if** the `predicate` evaluates to `true`.
+     * Binds the awaited outcome of `func` to `key` in the record of named values. See {@link bindTo};
+     * failure semantics are those of {@link bindAsync}.
      *
-     * @param predicate A function returning promise that returns boolean when awaited (optionally with `currentState` input).
-     * @param error      Error instance to push when the predicate fails.
+     * @param key The name to bind.
+     * @param func Delegate returning a promise (or an {@link AsyncResult}); its second argument is an `AbortSignal`
+     *             aborted on timeout or cancellation.
+     * @param [step] A step name or {@link AsyncStepOptions}, recorded in the {@link steps | journal}.
+     *
+     * @returns An {@link AsyncResult} over **this** for chaining.
+     */
+    public bindToAsync<K extends string, V>(key: K, func: (() => PromiseLike<V>) | ((context: TState, signal: AbortSignal) => PromiseLike<V>), step?: string | AsyncStepOptions)
+        : AsyncResult<WithBinding<TState, K, BoundValue<V>>, TError | BoundErrors<V> | AsyncStepError> {
+        return new AsyncResult(this.inFlight((async () => {
+            await this.runStepAsync('bindToAsync', step, async () => {
+                const outcome = await this.attemptAsync(signal => func.length === 0
+                    ? (func as () => PromiseLike<V>)()
+                    : (func as (c: TState, s: AbortSignal) => PromiseLike<V>)(this.currentState, signal), toStepOptions(step));
+                if (outcome) this.bindOutcome(key, outcome.value);
+            });
+            return this as unknown as Result<WithBinding<TState, K, BoundValue<V>>, TError | BoundErrors<V> | AsyncStepError>;
+        })()));
+    }
+
+    /**
+     * Binds a plain value computed from the record bound so far to `key`, e.g. a timestamp or a derived value.
+     * Unlike {@link bindTo}, a returned `Result` is bound as it is.
+     *
+     * @param key The name to bind.
+     * @param func Delegate computing the value; failure semantics are those of {@link bind}.
+     * @param [step] A step name or {@link StepOptions}, recorded in the {@link steps | journal}.
      *
      * @returns **this** for chaining.
      */
-    public async okIfAsync(predicate: (() => Promise<boolean>) | ((input: TState) => Promise<boolean>), error: AError): Promise<Result<TState>> {
-        if (this.isSuccess) {
+    public let<K extends string, V>(key: K, func: (() => V) | ((context: TState) => V), step?: string | StepOptions)
+        : Result<WithBinding<TState, K, V>, TError | ExceptionalError> {
+        this.runStep('let', step, () => {
             try {
-                const pass = predicate.length === 0
-                    ? await (predicate as () => Promise<boolean>)()
-                    : await (predicate as (i: TState) => Promise<boolean>)(this.currentState);
-                if (!pass) this._reasons.push(error);
+                this.bindValue(key, func.length === 0 ? (func as () => V)() : (func as (c: TState) => V)(this.currentState));
             }
             catch (e) {
-                this._reasons.push(new ExceptionalError(e));
+                this.addReason(new ExceptionalError(e));
             }
-        }
-        return this;
+        });
+        return this as unknown as Result<WithBinding<TState, K, V>, TError | ExceptionalError>;
     }
 
-
     /**
-     * Fails the pipeline **only if** the `predicate` evaluates to `true`.
+     * Chains a synchronous function into the pipeline, like {@link bind}, and registers a compensating action
+     * undoing its effect (e.g. deleting the row it inserted). See {@link compensate}.
      *
-     * @param predicate  Condition to evaluate (optionally with `currentState` input).
-     * @param error      Error instance to push when the predicate **passes**.
-     * @param [contingency] - Optional object defining a contingent route.
-     * @param next.func - A function to be executed if {@link predicate} evaluates to false
-     * @param next.routineName - A descriptive name for the routine, useful for logging or debugging.
+     * The compensation is registered only once `func` succeeded, so compensations of failed or skipped steps never run.
+     *
+     * @param func Delegate to execute; failure semantics are those of {@link bind}.
+     * @param compensate Undoes the effect of `func`, receiving its output.
+     * @param [step] A step name or {@link StepOptions}, recorded in the {@link steps | journal} and in the compensation's reasons.
      *
      * @returns **this** for chaining.
      */
-    public failIf(predicate: (() => boolean) | ((input: TState) => boolean),
-        error: AError,
-        contingency?: { func: (nextResult: Result<TState>) => void, routineName: string }): Result<TState> {
-        if (this.isSuccess) {
+    public bindCompensated<TRet>(func: (() => TRet) | ((input: TState) => TRet), compensate: (output: TRet) => void, step?: string | StepOptions)
+        : Result<TRet, TError | ExceptionalError> {
+        this.runStep('bindCompensated', step, () => {
             try {
-                const fail = predicate.length === 0
-                    ? (predicate as () => boolean)()
-                    : (predicate as (i: TState) => boolean)(this.currentState);
-                if (fail) {
-                    this._reasons.push(error);
-                    if (contingency) {
-                        let child = new Result<TState>(contingency.routineName, this);
-                        this.child = child;
-                        contingency.func(child);
-                    }
-                }
+                const out = func.length === 0
+                    ? (func as () => TRet)()
+                    : (func as (i: TState) => TRet)(this.currentState);
+                (this as unknown as Result<TRet>).cacheState(out);
+                this.compensations.push({ stepName: toStepOptions(step).name, compensate: () => compensate(out) });
             }
             catch (e) {
-                this._reasons.push(new ExceptionalError(e));
+                this.addReason(new ExceptionalError(e));
             }
-        }
-        return this;
+        });
+        return this as unknown as Result<TRet, TError | ExceptionalError>;
     }
 
-
-
     /**
-     * Fails the pipeline **only if** the `predicate` evaluates to `true`.
+     * Chains a promise-returning function into the pipeline, like {@link bindAsync}, and registers a compensating action
+     * undoing its effect (e.g. sending a cancellation message). See {@link bindCompensated}.
      *
-     * @param predicate A function returning promise that returns boolean when awaited (optionally with `currentState` input).
-     * @param error      Error instance to push when the predicate **passes**.
-     * @param [contingency] - Optional object defining a contingent route.
-     * @param next.func - A function to be executed if {@link predicate} evaluates to false
-     * @param next.routineName - A descriptive name for the routine, useful for logging or debugging.
+     * @param func A delegate returning a promise; failure semantics are those of {@link bindAsync}.
+     * @param compensate Undoes the effect of `func`, receiving its awaited output. It may return a promise.
+     * @param [step] A step name or {@link AsyncStepOptions}, recorded in the {@link steps | journal} and in the compensation's reasons.
      *
-     * @returns **this** for chaining.
+     * @returns An {@link AsyncResult} over **this** for chaining.
      */
-    public async failIfAsync(predicate: (() => Promise<boolean>) | ((input: TState) => Promise<boolean>),
-        error: AError,
-        contingency?: { func: (nextResult: Result<TState>) => void, routineName: string }): Promise<Result<TState>> {
-        if (this.isSuccess) {
+    public bindCompensatedAsync<TRet>(func: (() => Promise<TRet>) | ((input: TState, signal: AbortSignal) => Promise<TRet>),
+        compensate: (output: TRet) => void | PromiseLike<void>, step?: string | AsyncStepOptions): AsyncResult<TRet, TError | AsyncStepError> {
+        return new AsyncResult(this.inFlight((async () => {
+            await this.runStepAsync('bindCompensatedAsync', step, async () => {
+                const outcome = await this.attemptAsync(signal => func.length === 0
+                    ? (func as () => Promise<TRet>)()
+                    : (func as (i: TState, s: AbortSignal) => Promise<TRet>)(this.currentState, signal), toStepOptions(step));
+                if (!outcome) return;
+                (this as unknown as Result<TRet>).cacheState(outcome.value);
+                this.compensations.push({ stepName: toStepOptions(step).name, compensate: () => compensate(outcome.value) });
+            });
+            return this as unknown as Result<TRet, TError | AsyncStepError>;
+        })()));
+    }
+
+    /**
+     * Runs the compensating actions registered by {@link bindCompensated} and {@link bindCompensatedAsync}, in reverse order,
+     * whatever the outcome of the pipeline – e.g. after a later step failed or once a business rule rejects the outcome.
+     *
+     * • Each completed compensation is recorded as a {@link CompensationSucceeded}.
+     * • Each compensation that throws or rejects is recorded as a {@link CompensationFailedError}; the remaining ones still run.
+     * • Every compensation runs at most once: calling `compensate` again only runs those registered since.
+     *
+     * @returns An {@link AsyncResult} over **this** for chaining.
+     */
+    public compensate(): AsyncResult<TState, TError | CompensationFailedError> {
+        return new AsyncResult(this.inFlight((async () => {
+            await this.compensating;
+            await this.runCompensations();
+            return this as Result<TState, TError | CompensationFailedError>;
+        })()));
+    }
+
+    /**
+     * Switches to automatic compensation: as soon as a step fails the pipeline, the compensations registered so far run
+     * as by {@link compensate}. A cancellation triggers them only when a step records it; an abort after the pipeline
+     * settled never does. Compensations returning promises started by a synchronous step are awaited by
+     * {@link AsyncResult}, or through {@link compensated}.
+     *
+     * @returns **this** for chaining.
+     */
+    public withCompensationOnFailure(): Result<TState, TError | CompensationFailedError> {
+        this.compensatesOnFailure = true;
+        return this;
+    }
+
+    /**
+     * Settles with **this** once the compensations started automatically (see {@link withCompensationOnFailure}) have run.
+     */
+    public get compensated(): Promise<this> {
+        return Promise.resolve(this.compensating).then(() => this);
+    }
+
+    /**
+     * The states produced by the steps of this result, in execution order – for debugging what each step produced.
+     * Steps that were skipped or failed before producing a state are not listed.
+     */
+    public get stateHistory(): StateSnapshot[] {
+        return this.journal.filter(item => item.produced).map(({ entry, produced }) => ({ name: entry.name, kind: entry.kind, state: produced!.state }));
+    }
+
+    /**
+     * The state produced by the last step named `stepName`.
+     *
+     * @param stepName The step name passed to the chaining method.
+     * @returns The state, or `undefined` when no step of that name produced one.
+     */
+    public stateAt(stepName: string): unknown {
+        return this.stateHistory.filter(snapshot => snapshot.name === stepName).pop()?.state;
+    }
+
+    /**
+     * Keeps the pipeline successful **only if** the `predicate` evaluates to `true`.
+     *
+     * @param predicate  Condition to evaluate (optionally with `currentState` input).
+     * @param error      Error instance to push when the predicate fails.
+     * @param [step] A step name or {@link StepOptions}, recorded in the {@link steps | journal}.
+     *
+     * @returns **this** for chaining.
+     */
+    public okIf<E extends AError>(predicate: (() => boolean) | ((input: TState) => boolean), error: E, step?: string | StepOptions): Result<TState, TError | E | ExceptionalError> {
+        this.runStep('okIf', step, () => {
+            try {
+                const pass = predicate.length === 0
+                    ? (predicate as () => boolean)()
+                    : (predicate as (i: TState) => boolean)(this.currentState);
+                if (!pass) this.addReason(error);
+            }
+            catch (e) {
+                this.addReason(new ExceptionalError(e));
+            }
+        });
+        return this;
+    }
+
+    /**
+     * Keeps the pipeline successful **only if** the `predicate` evaluates to `true`. A predicate that throws or rejects is recorded as an
+     * {@link ExceptionalError}, as in its sync counterpart.
+     *
+     * @param predicate A function returning promise that returns boolean when awaited (optionally with `currentState` input).
+     * @param error      Error instance to push when the predicate fails.
+     * @param [step] A step name or {@link StepOptions}, recorded in the {@link steps | journal}.
+     *
+     * @returns An {@link AsyncResult} over **this** for chaining.
+     */
+    public okIfAsync<E extends AError>(predicate: (() => Promise<boolean>) | ((input: TState, signal: AbortSignal) => Promise<boolean>), error: E, step?: string | AsyncStepOptions)
+        : AsyncResult<TState, TError | E | AsyncStepError> {
+        return new AsyncResult(this.inFlight((async () => {
+            await this.runStepAsync('okIfAsync', step, async () => {
+                const outcome = await this.attemptAsync(signal => predicate.length === 0
+                    ? (predicate as () => Promise<boolean>)()
+                    : (predicate as (i: TState, s: AbortSignal) => Promise<boolean>)(this.currentState, signal), toStepOptions(step), guardFailure);
+                if (outcome && !outcome.value) this.addReason(error);
+            });
+            return this;
+        })()));
+    }
+
+
+    /**
+     * Fails the pipeline **only if** the `predicate` evaluates to `true`.
+     *
+     * @param predicate  Condition to evaluate (optionally with `currentState` input).
+     * @param error      Error instance to push when the predicate **passes**.
+     * @param [contingency] - Optional object defining a contingent route.
+     * @param next.func - A function to be executed if {@link predicate} evaluates to false
+     * @param next.routineName - A descriptive name for the routine, useful for logging or debugging.
+     * @param [step] A step name or {@link StepOptions}, recorded in the {@link steps | journal}.
+     *
+     * @returns **this** for chaining.
+     */
+    public failIf<E extends AError>(predicate: (() => boolean) | ((input: TState) => boolean),
+        error: E,
+        contingency?: Contingency<TState>,
+        step?: string | StepOptions): Result<TState, TError | E | ExceptionalError> {
+        this.runStep('failIf', step, () => {
             try {
                 const fail = predicate.length === 0
-                    ? await (predicate as () => Promise<boolean>)()
-                    : await (predicate as (i: TState) => Promise<boolean>)(this.currentState);
+                    ? (predicate as () => boolean)()
+                    : (predicate as (i: TState) => boolean)(this.currentState);
                 if (fail) {
-                    this._reasons.push(error);
+                    this.addReason(error);
                     if (contingency) {
-                        let child = new Result<TState>(contingency.routineName, this);
-                        this.child = child;
-                        contingency.func(child);
+                        this.runContingency(contingency);
                     }
                 }
             }
             catch (e) {
-                this._reasons.push(new ExceptionalError(e));
+                this.addReason(new ExceptionalError(e));
+            }
+        });
+        return this;
+    }
+
+
+
+    /**
+     * Fails the pipeline **only if** the `predicate` evaluates to `true`. A predicate that throws or rejects is recorded as an
+     * {@link ExceptionalError}, as in its sync counterpart.
+     *
+     * @param predicate A function returning promise that returns boolean when awaited (optionally with `currentState` input).
+     * @param error      Error instance to push when the predicate **passes**.
+     * @param [contingency] - Optional object defining a contingent route.
+     * @param next.func - A function to be executed (and awaited when it returns a promise) if {@link predicate} evaluates to false
+     * @param next.routineName - A descriptive name for the routine, useful for logging or debugging.
+     * @param [step] A step name or {@link StepOptions}, recorded in the {@link steps | journal}.
+     *
+     * @returns An {@link AsyncResult} over **this** for chaining.
+     */
+    public failIfAsync<E extends AError>(predicate: (() => Promise<boolean>) | ((input: TState, signal: AbortSignal) => Promise<boolean>),
+        error: E,
+        contingency?: AsyncContingency<TState>,
+        step?: string | AsyncStepOptions): AsyncResult<TState, TError | E | AsyncStepError> {
+        return new AsyncResult(this.inFlight((async () => {
+            await this.runStepAsync('failIfAsync', step, async () => {
+                const outcome = await this.attemptAsync(signal => predicate.length === 0
+                    ? (predicate as () => Promise<boolean>)()
+                    : (predicate as (i: TState, s: AbortSignal) => Promise<boolean>)(this.currentState, signal), toStepOptions(step), guardFailure);
+                if (outcome?.value) {
+                    this.addReason(error);
+                    if (contingency) {
+                        await this.runContingencyAsync(contingency);
+                    }
+                }
+            });
+            return this;
+        })()));
+    }
+
+    /**
+     * Runs every rule against {@link currentState} and records a {@link ValidationError} for each one that fails,
+     * instead of stopping at the first, so that all invalid fields are reported at once.
+     * Later steps are skipped as usual when any rule failed. Exceptions thrown by a rule are recorded as errors.
+     *
+     * @param rules The rules to check; see {@link ValidationRule}.
+     * @param [step] A step name or {@link StepOptions}, recorded in the {@link steps | journal}.
+     *
+     * @returns **this** for chaining.
+     */
+    public validate(rules: ValidationRule<TState>[], step?: string | StepOptions): Result<TState, TError | ValidationError | ExceptionalError> {
+        this.runStep('validate', step, () => {
+            for (const rule of rules) {
+                try {
+                    const value = readPath(this.currentState, rule.path);
+                    if (!rule.check(value, this.currentState)) {
+                        this.addReason(new ValidationError(rule.path, rule.code, value, rule.message));
+                    }
+                }
+                catch (e) {
+                    this.addReason(new ExceptionalError(e));
+                }
+            }
+        });
+        return this;
+    }
+
+    /**
+     * Runs every rule against {@link currentState} concurrently and records a {@link ValidationError}
+     * for each one that fails, in rule order. See {@link validate}.
+     *
+     * @param rules The rules to check; their checks may return promises, whose rejections are recorded as errors.
+     * @param [step] A step name or {@link StepOptions}, recorded in the {@link steps | journal}.
+     *
+     * @returns An {@link AsyncResult} over **this** for chaining.
+     */
+    public validateAsync(rules: AsyncValidationRule<TState>[], step?: string | StepOptions): AsyncResult<TState, TError | ValidationError | ExceptionalError | PromiseRejection> {
+        return new AsyncResult(this.inFlight((async () => {
+            await this.runStepAsync('validateAsync', step, async () => {
+                const reasons = await Promise.all(rules.map(rule => {
+                    try {
+                        const value = readPath(this.currentState, rule.path);
+                        return Promise.resolve(rule.check(value, this.currentState)).then(
+                            valid => valid ? undefined : new ValidationError(rule.path, rule.code, value, rule.message),
+                            reason => new PromiseRejection(reason));
+                    }
+                    catch (e) {
+                        return Promise.resolve(new ExceptionalError(e));
+                    }
+                }));
+                for (const reason of reasons) {
+                    if (reason) this.addReason(reason);
+                }
+            });
+            return this;
+        })()));
+    }
+
+    /**
+     * Runs a contingent routine on a new child result when the pipeline has failed and none of its
+     * contingencies has succeeded yet, so that several alternatives can be tried in turn.
+     * Exceptions thrown by the routine are recorded on the child.
+     *
+     * @param contingency The contingent routine.
+     * @param [step] A step name or {@link StepOptions}, recorded in the {@link steps | journal}.
+     *
+     * @returns **this** for chaining.
+     */
+    public withContingency(contingency: Contingency<TState>, step?: string | StepOptions): Result<TState, TError> {
+        this.runStep('withContingency', step, () => this.runContingency(contingency), this.findSuccessfulLeaf() !== undefined);
+        return this;
+    }
+
+    /**
+     * Runs a contingent routine on a new child result and awaits it. See {@link withContingency}.
+     *
+     * @param contingency The contingent routine; a returned promise is awaited and its rejection recorded on the child.
+     * @param [step] A step name or {@link StepOptions}, recorded in the {@link steps | journal}.
+     *
+     * @returns An {@link AsyncResult} over **this** for chaining.
+     */
+    public withContingencyAsync(contingency: AsyncContingency<TState>, step?: string | StepOptions): AsyncResult<TState, TError> {
+        return new AsyncResult(this.inFlight((async () => {
+            await this.runStepAsync('withContingencyAsync', step, () => this.runContingencyAsync(contingency), this.findSuccessfulLeaf() !== undefined);
+            return this;
+        })()));
+    }
+
+    /**
+     * Folds the outcome of a successful contingency back into a failed pipeline:
+     * the current errors become {@link RecoveredError}s and the contingency's state becomes {@link currentState}.
+     * Does nothing when the pipeline is successful or the contingency failed.
+     *
+     * @param [contingency] A result of this contingency tree; defaults to {@link findSuccessfulLeaf}.
+     * @throws {Error}  If `contingency` is not part of this result's contingency tree.
+     *
+     * @returns **this** for chaining.
+     */
+    public resolveWith(contingency: Result<TState, AError> | undefined = this.findSuccessfulLeaf()): Result<TState, TError> {
+        if (!contingency) return this;
+        let found = false;
+        this.walk(result => { if (result === contingency) found = true; });
+        if (!found) {
+            throw new Error(`Routine '${contingency.routineName}' is not part of the contingency tree of routine '${this.routineName}'.`);
+        }
+        if (this.isFailed && contingency.isSuccess) {
+            this.markRecovered();
+            if (contingency.stateCache.length === 1) this.cacheState(contingency.stateCache[0]);
+        }
+        return this;
+    }
+
+    /**
+     * The state the pipeline effectively produced: {@link currentState} when successful,
+     * otherwise the state of the contingency that succeeded (see {@link findSuccessfulLeaf}).
+     * @throws {Error}  If the pipeline failed and none of its contingencies succeeded.
+     */
+    public get effectiveState(): TState {
+        if (this.isSuccess) return this.currentState;
+        const leaf = this.findSuccessfulLeaf();
+        if (!leaf) {
+            throw new Error(`Routine '${this.routineName}' failed and none of its contingencies succeeded.`);
+        }
+        return leaf.currentState;
+    }
+
+    /**
+     * Visits this result and every contingency result below it, depth‑first and in creation order.
+     *
+     * @param visitor Called with each result and its depth (`0` for this result).
+     */
+    public walk(visitor: (result: Result<TState>, depth: number) => void): void {
+        const visit = (result: Result<TState>, depth: number) => {
+            visitor(result, depth);
+            result.children.forEach(child => visit(child as Result<TState>, depth + 1));
+        };
+        visit(this, 0);
+    }
+
+    /**
+     * Every reason of this result and its contingency tree, in {@link walk} order.
+     */
+    public flattenReasons(): AReason[] {
+        const reasons: AReason[] = [];
+        this.walk(result => reasons.push(...result.reasons));
+        return reasons;
+    }
+
+    /**
+     * Finds the first successful result without contingency children, in {@link walk} order.
+     *
+     * @returns The successful leaf (this result itself when it is a successful leaf), or `undefined` when none succeeded.
+     */
+    public findSuccessfulLeaf(): Result<TState> | undefined {
+        let leaf: Result<TState> | undefined;
+        this.walk(result => {
+            if (!leaf && result.children.length === 0 && result.isSuccess) leaf = result;
+        });
+        return leaf;
+    }
+
+    /**
+     * Folds both outcomes of the pipeline into one value.
+     *
+     * @param handlers `ok` is called with {@link currentState} when successful, `fail` with {@link errors} otherwise.
+     *
+     * @returns The value returned by the called handler.
+     */
+    public match<R>(handlers: MatchHandlers<TState, R, TError>): R {
+        return this.isSuccess ? handlers.ok(this.currentState) : handlers.fail(this.errors);
+    }
+
+    /**
+     * Starts an {@link ErrorMatch} dispatching on the class of {@link errors}, e.g.
+     * `result.matchError().on(AuthError, e => 401).on(NotFoundError, e => 404).otherwise(() => 500)`.
+     */
+    public matchError(): ErrorMatch<never, false, TError> {
+        return new ErrorMatch(this.errors);
+    }
+
+    /**
+     * Resumes a failed pipeline with a fallback state when **every** error matches `matcher`.
+     * The recovered errors are kept in {@link reasons} as {@link RecoveredError}s.
+     *
+     * @param matcher  An {@link AError} subclass, or a predicate evaluated against each error.
+     * @param fallback Produces the state to resume with from the first recovered error.
+     *
+     * @returns **this** for chaining.
+     */
+    public recover(matcher: (error: AError) => boolean, fallback: (error: TError) => TState): Result<TState, TError | ExceptionalError>;
+    public recover<TMatch extends AError>(matcher: ErrorClass<TMatch>, fallback: (error: TMatch) => TState): Result<TState, RecoveredErrors<TError, TMatch>>;
+    public recover<TMatch extends AError>(matcher: ErrorMatcher<TMatch>, fallback: (error: TMatch) => TState): Result<TState, AError> {
+        const errors = this.errors;
+        if (this.isFailed && errors.length > 0 && errors.every(toErrorPredicate(matcher))) {
+            try {
+                const state = fallback(errors[0] as AError as TMatch);
+                this.markRecovered();
+                this.cacheState(state);
+            }
+            catch (e) {
+                this.addReason(new ExceptionalError(e));
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Runs an alternative routine when the pipeline has failed.
+     *
+     * • If the alternative succeeds, the current errors become {@link RecoveredError}s and its state and reasons are adopted.
+     * • If it fails, its reasons are appended and the pipeline stays failed.
+     *
+     * @param alternative Produces the alternative result from the current errors.
+     *
+     * @returns **this** for chaining.
+     */
+    public orElse<E extends AError = AError>(alternative: (errors: TError[]) => Result<TState, E>): Result<TState, TError | E | ExceptionalError> {
+        if (this.isFailed) {
+            try {
+                this.adopt(alternative(this.errors));
+            }
+            catch (e) {
+                this.addReason(new ExceptionalError(e));
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Runs an async alternative routine when the pipeline has failed. See {@link orElse}.
+     *
+     * @param alternative Produces a promise of (or an {@link AsyncResult} for) the alternative result.
+     *
+     * @returns An {@link AsyncResult} over **this** for chaining.
+     */
+    public orElseAsync<E extends AError = AError>(alternative: (errors: TError[]) => PromiseLike<Result<TState, E>>)
+        : AsyncResult<TState, TError | E | ExceptionalError | PromiseRejection> {
+        return new AsyncResult(this.inFlight((async () => {
+            if (this.isFailed) {
+                try {
+                    await Promise.resolve(alternative(this.errors)).then(result => this.adopt(result), reason => this.addReason(new PromiseRejection(reason)));
+                }
+                catch (e) {
+                    this.addReason(new ExceptionalError(e));
+                }
+            }
+            return this;
+        })()));
+    }
+
+    /**
+     * Translates every recorded error, e.g. low-level {@link ExceptionalError}s into domain {@link AError}s.
+     *
+     * @param mapper Returns the replacement for an error (or the error itself to keep it).
+     *
+     * @returns **this** for chaining.
+     */
+    public mapError<E extends AError>(mapper: (error: TError) => E): Result<TState, E | ExceptionalError> {
+        try {
+            const mapped = this._reasons.map(r => r instanceof AError ? mapper(r as TError) : r);
+            const added = mapped.filter(r => !this._reasons.includes(r));
+            this._reasons = mapped;
+            added.forEach(r => this.notify('onReasonAdded', this, r));
+        }
+        catch (e) {
+            this.addReason(new ExceptionalError(e));
+        }
+        return this as unknown as Result<TState, E | ExceptionalError>;
+    }
+
+    /**
+     * Runs a side effect with {@link currentState} when the pipeline is successful.
+     * The outcome never changes: exceptions thrown by `action` are ignored.
+     *
+     * @returns **this** for chaining.
+     */
+    public tap(action: (() => void) | ((input: TState) => void)): Result<TState, TError> {
+        if (this.isSuccess) {
+            try {
+                action.length === 0 ? (action as () => void)() : (action as (i: TState) => void)(this.currentState);
+            }
+            catch {
+                // Side effects never alter the outcome.
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Awaits a side effect with {@link currentState} when the pipeline is successful.
+     * The outcome never changes: exceptions and rejections are ignored.
+     *
+     * @returns An {@link AsyncResult} over **this** for chaining.
+     */
+    public tapAsync(action: (() => Promise<void>) | ((input: TState) => Promise<void>)): AsyncResult<TState, TError> {
+        return new AsyncResult(this.inFlight((async () => {
+            if (this.isSuccess) {
+                try {
+                    await (action.length === 0 ? (action as () => Promise<void>)() : (action as (i: TState) => Promise<void>)(this.currentState));
+                }
+                catch {
+                    // Side effects never alter the outcome.
+                }
+            }
+            return this;
+        })()));
+    }
+
+    /**
+     * Runs a side effect with the recorded errors when the pipeline has failed.
+     * The outcome never changes: exceptions thrown by `action` are ignored.
+     *
+     * @returns **this** for chaining.
+     */
+    public tapError(action: (errors: TError[]) => void): Result<TState, TError> {
+        if (this.isFailed) {
+            try {
+                action(this.errors);
+            }
+            catch {
+                // Side effects never alter the outcome.
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Awaits a side effect with the recorded errors when the pipeline has failed.
+     * The outcome never changes: exceptions and rejections are ignored.
+     *
+     * @returns An {@link AsyncResult} over **this** for chaining.
+     */
+    public tapErrorAsync(action: (errors: TError[]) => Promise<void>): AsyncResult<TState, TError> {
+        return new AsyncResult(this.inFlight((async () => {
+            if (this.isFailed) {
+                try {
+                    await action(this.errors);
+                }
+                catch {
+                    // Side effects never alter the outcome.
+                }
+            }
+            return this;
+        })()));
+    }
+
+    /**
+     * Records a success reason on the pipeline; skipped when the pipeline is already failed.
+     *
+     * @param success  The success to record, or a delegate producing it (optionally from `currentState`).
+     *                 A delegate may return `undefined` to record nothing.
+     *
+     * @returns **this** for chaining.
+     */
+    public withSuccess(success: ASuccess | (() => ASuccess | undefined) | ((input: TState) => ASuccess | undefined)): Result<TState, TError | ExceptionalError> {
+        return this.withReason(success);
+    }
+
+    /**
+     * Records a warning reason on the pipeline; skipped when the pipeline is already failed.
+     * Warnings leave the result successful unless its {@link failurePolicy} says otherwise.
+     *
+     * @param warning  The warning to record, or a delegate producing it (optionally from `currentState`).
+     *                 A delegate may return `undefined` to record nothing.
+     *
+     * @returns **this** for chaining.
+     */
+    public withWarning(warning: AWarning | (() => AWarning | undefined) | ((input: TState) => AWarning | undefined)): Result<TState, TError | ExceptionalError> {
+        return this.withReason(warning);
+    }
+
+    /**
+     * Replaces the policy deciding which reasons fail this result (see {@link FailurePolicies}).
+     * Contingency children created afterwards inherit it.
+     *
+     * @returns **this** for chaining.
+     */
+    public withFailurePolicy(policy: FailurePolicy): Result<TState, TError> {
+        this.failurePolicy = policy;
+        return this;
+    }
+
+    /**
+     * Internal helper—runs a synchronous step unless it is skipped (by default when the result has already failed)
+     * or the pipeline was cancelled, and journals it.
+     */
+    private runStep(kind: StepKind, step: string | StepOptions | undefined, run: () => void, skip: boolean = this.isFailed): void {
+        const failedBefore = this.isFailed;
+        this.observeCancellation();
+        const started = this.startStep(kind, step, skip || this.isCancelled);
+        if (!started.skipped) run();
+        this.endStep(kind, step, started);
+        this.compensateOnFailure(failedBefore);
+        this.settleLater();
+    }
+
+    /**
+     * Internal helper—runs an async step unless it is skipped (by default when the result has already failed)
+     * or the pipeline was cancelled, and journals it.
+     */
+    private async runStepAsync(kind: StepKind, step: string | StepOptions | undefined, run: () => Promise<void>, skip: boolean = this.isFailed): Promise<void> {
+        const failedBefore = this.isFailed;
+        this.observeCancellation();
+        const started = this.startStep(kind, step, skip || this.isCancelled);
+        if (!started.skipped) {
+            await run();
+            this.observeCancellation();
+        }
+        this.endStep(kind, step, started);
+        await this.compensateOnFailure(failedBefore);
+    }
+
+    /**
+     * Internal helper—settles the pipeline once no work is in flight and nothing else happened during the current turn
+     * of the event loop: it stops following its signal and tells instrumentation. Only scheduled while the pipeline
+     * follows a signal or instrumentation is registered.
+     */
+    private settleLater(): void {
+        const activity = ++this.activity;
+        if (this.pendingWork > 0 || (!this.signal && !hasInstrumentations(this.instrumentations))) return;
+        setTimeout(() => {
+            if (this.pendingWork > 0 || this.activity !== activity) return;
+            this.releaseSignal();
+            this.notify('onPipelineSettled', this);
+        }, 0);
+    }
+
+    /**
+     * Internal helper—stops following the pipeline signal: removes the listeners and clears the timers it set up.
+     * Aborts from then on are ignored.
+     */
+    private releaseSignal(): void {
+        this.signalReleases.splice(0).forEach(release => release());
+        this.signal = undefined;
+    }
+
+    /**
+     * Internal helper—keeps the pipeline from settling until `work` has.
+     */
+    private async inFlight<T>(work: Promise<T>): Promise<T> {
+        this.pendingWork++;
+        try {
+            return await work;
+        }
+        finally {
+            this.pendingWork--;
+            this.settleLater();
+        }
+    }
+
+    private startStep(kind: StepKind, step: string | StepOptions | undefined, skipped: boolean) {
+        this.notify('onStepStart', this, { kind, name: toStepOptions(step).name });
+        return { skipped, startedAt: Date.now(), reasonCount: this._reasons.length, childCount: this.children.length, stateWrites: this.stateWrites };
+    }
+
+    private endStep(kind: StepKind, step: string | StepOptions | undefined, started: ReturnType<Result['startStep']>): void {
+        const spawned = this.children.slice(started.childCount);
+        const entry: StepEntry = {
+            name: toStepOptions(step).name,
+            kind,
+            routineName: this.routineName,
+            startedAt: started.startedAt,
+            endedAt: Date.now(),
+            outcome: started.skipped ? 'skipped'
+                : !this.isFailed ? 'ran'
+                : spawned.some(child => (child as Result).findSuccessfulLeaf() !== undefined) ? 'recovered' : 'failed',
+            reasons: this._reasons.slice(started.reasonCount)
+        };
+        const produced = this.stateWrites !== started.stateWrites ? { state: this.stateCache[0] } : undefined;
+        this.journal.push({ entry, spawned, produced });
+        this.notify('onStepEnd', this, entry);
+    }
+
+    /**
+     * Internal helper backing {@link bindTo} and {@link bindToAsync}—binds `value`, or the state of a returned `Result`
+     * after recording its reasons (nothing is bound when it failed).
+     */
+    private bindOutcome(key: string, value: unknown): void {
+        if (value instanceof Result) {
+            this.addReason(...value.reasons);
+            if (value.isFailed) return;
+            value = value.stateCache[0];
+        }
+        this.bindValue(key, value);
+    }
+
+    /**
+     * Internal helper backing {@link let} and {@link bindOutcome}—caches the record of named values with `key` bound to `value`.
+     */
+    private bindValue(key: string, value: unknown): void {
+        const previous = this.stateCache[0];
+        this.cacheState({ ...(isPlainObject(previous) ? previous : {}), [key]: value } as TState);
+    }
+
+    /**
+     * Internal helper—starts the registered compensations once a step failed the pipeline, in {@link withCompensationOnFailure} mode.
+     */
+    private compensateOnFailure(failedBefore: boolean): Promise<void> | void {
+        if (!this.compensatesOnFailure || failedBefore || this.isSuccess) return;
+        const pending = this.runCompensations();
+        if (pending) return this.compensating = this.inFlight(pending);
+    }
+
+    /**
+     * Internal helper—runs the registered compensations in reverse order, recording their outcomes.
+     * Stays synchronous until a compensation returns a promise.
+     */
+    private runCompensations(): Promise<void> | void {
+        while (this.compensations.length > 0) {
+            const { stepName, compensate } = this.compensations.pop()!;
+            let outcome: void | PromiseLike<void>;
+            try {
+                outcome = compensate();
+            }
+            catch (e) {
+                this.addReason(new CompensationFailedError(stepName, new ExceptionalError(e)));
+                continue;
+            }
+            if (typeof outcome?.then === 'function') {
+                return Promise.resolve(outcome).then(
+                    () => this.addReason(new CompensationSucceeded(stepName)),
+                    reason => this.addReason(new CompensationFailedError(stepName, new PromiseRejection(reason)))
+                ).then(() => this.runCompensations());
+            }
+            this.addReason(new CompensationSucceeded(stepName));
+        }
+    }
+
+    /**
+     * Internal helper—validates `input` against `schema`, caching its output or recording its issues.
+     */
+    private parseWith(schema: StandardSchema<unknown, TState>, input: unknown): void {
+        try {
+            const outcome = schema['~standard'].validate(input);
+            if (outcome instanceof Promise) {
+                throw new Error(`The '${schema['~standard'].vendor}' schema validates asynchronously. Use parseAsync or bindParseAsync instead.`);
             }
+            this.acceptParsed(outcome, input);
+        }
+        catch (e) {
+            this.addReason(new ExceptionalError(e));
         }
+    }
+
+    /**
+     * Internal helper—validates `input` against `schema` per `options`, awaiting async validation. See {@link parseWith}.
+     */
+    private async parseWithAsync(schema: StandardSchema<unknown, TState>, input: unknown, options: AttemptOptions): Promise<void> {
+        const outcome = await this.attemptAsync(async () => schema['~standard'].validate(input), options);
+        if (outcome) this.acceptParsed(outcome.value, input);
+    }
+
+    /**
+     * Internal helper—caches the parsed value, or records the issues found in `input` as {@link SchemaIssueError}s.
+     */
+    private acceptParsed(outcome: StandardSchemaResult<TState>, input: unknown): void {
+        if (outcome.issues) this.addReason(...toSchemaIssueErrors(outcome.issues, input));
+        else this.cacheState(outcome.value);
+    }
+
+    /**
+     * Internal helper—runs `action` per `options` and resolves with its awaited outcome, or `undefined` when it failed.
+     *
+     * • A rejection is captured by `captureRejection` – as a {@link PromiseRejection} by default –, an exception as an
+     *   {@link ExceptionalError}, an elapsed `timeoutMs` as a {@link TimeoutError}.
+     * • With a retry policy, each retryable failure is recorded as a {@link RetryAttemptFailed};
+     *   the last one is followed by a {@link RetriesExhaustedError}. Non-retryable failures are recorded as they are.
+     * • Cancellation of the pipeline stops at once, recording a {@link CancelledError}.
+     * • With a circuit breaker, an attempt it rejects records a {@link CircuitOpenError} without calling `action` and is not retried;
+     *   the outcome of every other attempt is reported to it.
+     */
+    private async attemptAsync<T>(action: (signal: AbortSignal) => PromiseLike<T>, options: AttemptOptions,
+        captureRejection: (reason: unknown) => AError = reason => new PromiseRejection(reason)): Promise<{ value: T } | undefined> {
+        const { retry, timeoutMs, circuitBreaker } = options;
+        for (let attempt = 1; !this.signal?.aborted; attempt++) {
+            const permit = circuitBreaker?.tryAcquire();
+            if (circuitBreaker && !permit) {
+                this.addReason(new CircuitOpenError(circuitBreaker.name, circuitBreaker.retryAfterMs));
+                return undefined;
+            }
+            const outcome = await this.attemptOnce(action, timeoutMs, captureRejection);
+            permit?.complete('error' in outcome ? outcome.error : undefined);
+            if ('value' in outcome) return outcome;
+            if (this.signal?.aborted) break;
+            if (!retry || !isRetryable(retry, outcome.error)) {
+                this.addReason(outcome.error);
+                return undefined;
+            }
+            this.addReason(new RetryAttemptFailed(attempt, outcome.error));
+            if (attempt >= retry.maxAttempts) {
+                this.addReason(new RetriesExhaustedError(attempt, outcome.error));
+                return undefined;
+            }
+            const wait = openAbortScope(this.signal);
+            await Promise.race([sleepFor(retry, retryDelay(retry, attempt)), wait.interrupted]);
+            wait.dispose();
+        }
+        this.observeCancellation();
+        return undefined;
+    }
+
+    /**
+     * Internal helper—runs a single attempt of `action`, interrupted by cancellation or `timeoutMs`.
+     */
+    private async attemptOnce<T>(action: (signal: AbortSignal) => PromiseLike<T>, timeoutMs: number | undefined,
+        captureRejection: (reason: unknown) => AError): Promise<{ value: T } | { error: AError }> {
+        const scope = openAbortScope(this.signal, timeoutMs);
+        try {
+            return await Promise.race([
+                Promise.resolve(action(scope.signal)).then(value => ({ value }), reason => ({ error: captureRejection(reason) })),
+                scope.interrupted.then(error => ({ error }))
+            ]);
+        }
+        catch (e) {
+            return { error: new ExceptionalError(e) };
+        }
+        finally {
+            scope.dispose();
+        }
+    }
+
+    /**
+     * Internal helper—records the cancellation of the pipeline, once, when its signal has aborted. Only called while
+     * the pipeline runs: before and after steps, and when an attempt was interrupted.
+     */
+    private observeCancellation(): void {
+        if (this.signal?.aborted && !this.cancelled) {
+            this.cancelled = true;
+            this.addReason(toAbortError(this.signal.reason));
+        }
+    }
+
+    /**
+     * Internal helper backing the parallel combinators: runs `routines` into a new root result and lets `settle` fold their outcome in,
+     * unless the combined pipeline was cancelled. `isDecisive` marks the combinators that need at least one routine.
+     */
+    private static combine<T>(routines: Routine[], routineName: string, options: RoutineOptions,
+        isDecisive: ((result: Result) => boolean) | undefined,
+        settle: (combined: Result<T>, outcome: Awaited<ReturnType<typeof runRoutines>>) => void): AsyncResult<T> {
+        if (isDecisive && routines.length === 0) {
+            throw new Error(`Routine '${routineName}' needs at least one routine to run.`);
+        }
+        const combined = Result.start<T>(routineName);
+        if (options.signal) combined.withSignal(options.signal);
+        return new AsyncResult(combined.inFlight(runRoutines(routines, routineName, options, isDecisive)).then(outcome => {
+            combined.observeCancellation();
+            if (!combined.isCancelled) settle(combined, outcome);
+            return combined;
+        }));
+    }
+
+    /**
+     * Internal helper—records the reasons of a routine's `result`, tagging copies with its `routineName` metadata.
+     */
+    private collect(result: Result): void {
+        // Tag copies: a routine's reasons may be shared with other routines, or still be referenced by the caller.
+        this.addReason(...result.reasons.map(reason => reason.hasMetadata('routineName') ? reason : reason.copy().withMetadata('routineName', result.routineName)));
+    }
+
+    /**
+     * Internal helper—creates a root result and announces it to instrumentation.
+     */
+    private static start<T, TError extends AError = AError>(routineName: string): Result<T, TError> {
+        const result = new Result<T, TError>(routineName);
+        result.notify('onPipelineStart', result);
+        result.settleLater();
+        return result;
+    }
+
+    /**
+     * Internal helper—creates a contingency child of this result and announces it to instrumentation.
+     */
+    private spawnContingency(routineName: string): Result<TState> {
+        const child = new Result<TState>(routineName, this);
+        this.addChild(child);
+        this.notify('onContingency', this, child);
+        child.settleLater();
+        return child;
+    }
+
+    /**
+     * Internal helper—runs `contingency` on a new child, recording exceptions it throws on the child.
+     */
+    private runContingency(contingency: Contingency<TState>): void {
+        const child = this.spawnContingency(contingency.routineName);
+        try {
+            contingency.func(child);
+        }
+        catch (e) {
+            child.addReason(new ExceptionalError(e));
+        }
+    }
+
+    /**
+     * Internal helper—runs `contingency` on a new child and awaits it, recording exceptions and rejections on the child.
+     */
+    private async runContingencyAsync(contingency: AsyncContingency<TState>): Promise<void> {
+        const child = this.spawnContingency(contingency.routineName);
+        try {
+            await child.inFlight(Promise.resolve(contingency.func(child)).then(undefined, reason => child.addReason(new PromiseRejection(reason))));
+        }
+        catch (e) {
+            child.addReason(new ExceptionalError(e));
+        }
+    }
+
+    /**
+     * Adds `instrumentation` to this result, in addition to the globally registered ones.
+     * Contingency children created afterwards inherit it.
+     *
+     * @returns **this** for chaining.
+     */
+    public withInstrumentation(instrumentation: Instrumentation): Result<TState, TError> {
+        this.instrumentations.push(instrumentation);
         return this;
     }
 
+    /**
+     * Cancels the pipeline when `signal` aborts – e.g. the signal of an incoming request, or `AbortSignal.timeout(…)`.
+     * A running async step is abandoned, a {@link CancelledError} is recorded and every later step is skipped.
+     * Async delegates receive a signal following it. Contingency children created afterwards inherit it.
+     *
+     * @returns **this** for chaining.
+     */
+    public withSignal(signal: AbortSignal): Result<TState, TError | CancelledError | TimeoutError> {
+        if (this.signal) {
+            const linked = anySignal([this.signal, signal]);
+            this.signalReleases.push(linked.dispose);
+            signal = linked.signal;
+        }
+        this.signal = signal;
+        this.settleLater();
+        return this;
+    }
+
+    /**
+     * Cancels the pipeline once `timeoutMs` have elapsed, recording a {@link TimeoutError} instead of a {@link CancelledError}.
+     * See {@link withSignal}.
+     *
+     * @returns **this** for chaining.
+     */
+    public withTimeout(timeoutMs: number): Result<TState, TError | CancelledError | TimeoutError> {
+        const timeout = timeoutSignal(timeoutMs);
+        this.signalReleases.push(timeout.dispose);
+        return this.withSignal(timeout.signal);
+    }
+
+    /**
+     * Internal helper—keeps every recorded error in history as a {@link RecoveredError}.
+     */
+    private markRecovered(): void {
+        this._reasons = this._reasons.map(r => r instanceof AError ? new RecoveredError(r) : r);
+    }
+
+    /**
+     * Internal helper backing {@link orElse} and {@link orElseAsync}.
+     */
+    private adopt(alternative: Result<TState, AError>): void {
+        if (alternative.isSuccess) {
+            this.markRecovered();
+            if (alternative.stateCache.length === 1) this.cacheState(alternative.stateCache[0]);
+        }
+        this.addReason(...alternative.reasons);
+    }
+
+    /**
+     * Internal helper backing {@link withSuccess} and {@link withWarning}.
+     */
+    private withReason(reason: AReason | (() => AReason | undefined) | ((input: TState) => AReason | undefined)): Result<TState, TError | ExceptionalError> {
+        if (this.isSuccess) {
+            try {
+                const out = typeof reason !== 'function'
+                    ? reason
+                    : reason.length === 0
+                        ? (reason as () => AReason | undefined)()
+                        : (reason as (i: TState) => AReason | undefined)(this.currentState);
+                if (out) this.addReason(out);
+            }
+            catch (e) {
+                this.addReason(new ExceptionalError(e));
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Delegates to this result with `yield* result.yield()` inside {@link Result.gen}: yields the result itself,
+     * then evaluates to its {@link currentState} once the pipeline resumes.
+     *
+     * Results are deliberately not iterable themselves, so spreading or deep-comparing a failed result never reads its state.
+     */
+    public *yield(): Generator<Result<TState, TError>, TState, unknown> {
+        yield this;
+        return this.currentState;
+    }
+
+    /**
+     * Renders this result and its contingency children as an indented text tree. See {@link renderTree}.
+     */
+    public toString(): string {
+        return renderTree(this);
+    }
+
+    /**
+     * Lets `console.log` and the Node REPL print the tree of {@link toString} – coloured when the output supports it –
+     * instead of the result's internal fields. `depth` limits the contingency levels rendered; nested beyond it,
+     * the result collapses to `[Result]` like any other object.
+     */
+    public [inspectCustom](depth: number | null, options: { colors?: boolean }): string {
+        if (depth !== null && depth < 0) return '[Result]';
+        return renderTree(this, { depth: depth ?? Infinity, colors: options?.colors });
+    }
+
+    /**
+     * Produces the stable, versioned {@link SerializedResult} wire format, so results can cross process boundaries.
+     * Called implicitly by `JSON.stringify`. Revive with {@link Result.fromJSON}.
+     */
+    public toJSON(): SerializedResult {
+        const json: SerializedResult = {
+            version: RESULT_WIRE_VERSION,
+            routineName: this.routineName,
+            hasState: this.stateCache.length === 1,
+            reasons: this.reasons.map(reason => ReasonRegistry.serialize(reason)),
+            failed: this.isFailed
+        };
+        if (this.isCancelled) json.cancelled = true;
+        if (json.hasState) json.state = this.stateCache[0];
+        if (this.children.length > 0) json.children = this.children.map(child => (child as Result).toJSON());
+        return json;
+    }
+
+    /**
+     * Internal helper backing {@link fromJSON}.
+     */
+    private static revive<T>(json: SerializedResult, registry: ReasonRegistry, parent?: Result): Result<T> {
+        const result = new Result<T>(json.routineName, parent);
+        result._reasons.push(...json.reasons.map(reason => registry.revive(reason)));
+        if (json.failed !== undefined && json.failed !== FailurePolicies.errorsOnly(result._reasons)) {
+            result.failurePolicy = keepVerdict(json.failed, result._reasons);
+        }
+        result.cancelled = json.cancelled === true;
+        if (json.hasState) result.cacheState(json.state as T);
+        const children = json.children ?? (json.child ? [json.child] : []);
+        children.forEach(child => result.addChild(Result.revive(child, registry, result)));
+        return result;
+    }
+
     /**
      * Internal helper—overwrites the single‑slot {@link stateCache}.
      * Not exposed publicly on purpose.
@@ -307,6 +1908,7 @@ export class Result<TState = any> extends AResult {
     private cacheState(value: TState) {
         this.stateCache.length = 0;
         this.stateCache.push(value);
+        this.stateWrites++;
     }
 
 }
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { AError } from "./AError";
+
+/**
+ * Fails a retried async step once its {@link RetryPolicy} allows no further attempt.
+ * The failure of the last attempt is recorded as its cause.
+ */
+export class RetriesExhaustedError extends AError {
+    private _attempts: number;
+    /**
+     * @param attempts The number of attempts made.
+     * @param lastError The failure of the last attempt.
+     */
+    constructor(attempts: number, lastError: AError) {
+        super(`Gave up after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${lastError.message}`);
+        this._attempts = attempts;
+        this.causedBy(lastError);
+    }
+    get attempts(): number {
+        return this._attempts;
+    }
+}
@@ -0,0 +1,26 @@
+import { AError } from "./AError";
+import { AReason } from "./AReason";
+
+/**
+ * Records a failed attempt of a retried async step. It is neither an error nor a warning: the step may still succeed
+ * on a later attempt, so no {@link FailurePolicy} counts it.
+ */
+export class RetryAttemptFailed extends AReason {
+    private _attempt: number;
+    private _error: AError;
+    /**
+     * @param attempt The number of the failed attempt, starting at `1`.
+     * @param error The failure of that attempt, usually a {@link PromiseRejection}.
+     */
+    constructor(attempt: number, error: AError) {
+        super(`Attempt ${attempt} failed: ${error.message}`);
+        this._attempt = attempt;
+        this._error = error;
+    }
+    get attempt(): number {
+        return this._attempt;
+    }
+    get error(): AError {
+        return this._error;
+    }
+}
@@ -0,0 +1,75 @@
+import { AError, ErrorClass, ErrorMatcher, toErrorPredicate } from './AError';
+
+/**
+ * Computes the delay, in milliseconds, before the next attempt from the number of the attempt that just failed (starting at `1`).
+ */
+export type Backoff = (attempt: number) => number;
+
+/**
+ * Built-in {@link Backoff | backoff strategies}.
+ */
+export const Backoffs = {
+    /**
+     * Waits the same delay before every retry.
+     * @param delayMs The delay in milliseconds.
+     */
+    fixed(delayMs: number): Backoff {
+        return () => delayMs;
+    },
+
+    /**
+     * Multiplies the delay by `factor` after every failed attempt, capped at `maxDelayMs`.
+     * @param initialDelayMs The delay before the first retry, in milliseconds.
+     */
+    exponential(initialDelayMs: number, { factor = 2, maxDelayMs = Infinity }: { factor?: number, maxDelayMs?: number } = {}): Backoff {
+        return (attempt) => Math.min(initialDelayMs * Math.pow(factor, attempt - 1), maxDelayMs);
+    }
+};
+
+/**
+ * Describes how an async step is retried when it throws or rejects.
+ */
+export interface RetryPolicy {
+    /** The total number of attempts, including the first one. */
+    maxAttempts: number;
+    /** The delay before each retry. Retries immediately when omitted. */
+    backoff?: Backoff;
+    /** Randomises each delay by up to ± this fraction (`0`–`1`) of it. */
+    jitter?: number;
+    /**
+     * Decides which failures are retried – an {@link AError} class, a list of classes or a predicate.
+     * Failures arrive as {@link PromiseRejection}s and {@link ExceptionalError}s. Every failure is retried when omitted.
+     */
+    retryIf?: ErrorMatcher | ErrorClass[];
+    /** Waits between attempts. Defaults to `setTimeout`; inject a fake to control time in tests. */
+    sleep?: (delayMs: number) => Promise<void>;
+    /** Source of randomness for {@link jitter}, returning values in `[0, 1)`. Defaults to `Math.random`. */
+    random?: () => number;
+}
+
+/**
+ * `true` when `policy` allows retrying after `error`.
+ */
+export function isRetryable(policy: RetryPolicy, error: AError): boolean {
+    const retryIf = policy.retryIf;
+    if (retryIf === undefined) return true;
+    return Array.isArray(retryIf) ? retryIf.some(errorClass => error instanceof errorClass) : toErrorPredicate(retryIf)(error);
+}
+
+/**
+ * The jittered delay `policy` prescribes after the failed `attempt`.
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+    const delay = policy.backoff?.(attempt) ?? 0;
+    const jitter = policy.jitter ?? 0;
+    if (jitter === 0) return delay;
+    const random = (policy.random ?? Math.random)();
+    return Math.max(0, delay * (1 - jitter + 2 * jitter * random));
+}
+
+/**
+ * Waits `delayMs` using {@link RetryPolicy.sleep}, or `setTimeout` when none is given.
+ */
+export function sleepFor(policy: RetryPolicy, delayMs: number): Promise<void> {
+    return policy.sleep ? policy.sleep(delayMs) : new Promise(resolve => setTimeout(resolve, delayMs));
+}
@@ -0,0 +1,93 @@
+import { anySignal } from './Cancellation';
+import { ExceptionalError } from './ExceptionalError';
+import { PromiseRejection } from './PromiseRejection';
+import { Result } from './Result';
+
+/**
+ * An independent routine run by {@link Result.all}, {@link Result.allSettled}, {@link Result.any} or {@link Result.race}.
+ * It produces its own (named) {@link Result}, and receives an `AbortSignal` aborted once its outcome is no longer needed.
+ */
+export type Routine<T = any> = (signal: AbortSignal) => Result<T> | PromiseLike<Result<T>>;
+
+/**
+ * Maps a tuple of routines to the tuple of their states, as produced by {@link Result.all}.
+ */
+export type RoutineStates<T extends Routine[]> = { [K in keyof T]: T[K] extends Routine<infer S> ? S : never };
+
+/**
+ * Maps a tuple of routines to the tuple of their results, as produced by {@link Result.allSettled}.
+ */
+export type RoutineResults<T extends Routine[]> = { [K in keyof T]: T[K] extends Routine<infer S> ? Result<S> : never };
+
+/**
+ * Options accepted by the parallel combinators.
+ */
+export interface RoutineOptions {
+    /** The maximum number of routines running at once. Unlimited when omitted. */
+    concurrency?: number;
+    /** Cancels the combined pipeline – and every running routine – when aborted. */
+    signal?: AbortSignal;
+}
+
+/**
+ * Runs `routines` at most `options.concurrency` at a time.
+ *
+ * Resolves once every routine has settled, or early – without starting further routines and
+ * aborting the running ones – as soon as `isDecisive` accepts a result or `options.signal` aborts.
+ * Routines that throw or reject settle as failed results named after their position.
+ *
+ * @returns The results by routine index (`undefined` for routines that never settled) and the decisive result, if any.
+ * @throws {Error}  If `options.concurrency` is lower than `1`.
+ */
+export function runRoutines(routines: Routine[], routineName: string, options: RoutineOptions, isDecisive: (result: Result) => boolean = () => false)
+    : Promise<{ results: (Result | undefined)[], decisive?: Result }> {
+    const concurrency = options.concurrency ?? Infinity;
+    if (!(concurrency >= 1)) {
+        throw new Error(`Concurrency must be at least 1, got ${concurrency}.`);
+    }
+    const controller = new AbortController();
+    const linked = options.signal ? anySignal([controller.signal, options.signal]) : undefined;
+    const signal = linked?.signal ?? controller.signal;
+    const results: (Result | undefined)[] = routines.map(() => undefined);
+    return new Promise(resolve => {
+        let next = 0;
+        let running = 0;
+        let done = false;
+        const finish = (decisive?: Result) => {
+            if (done) return;
+            done = true;
+            controller.abort();
+            linked?.dispose();
+            resolve({ results, decisive });
+        };
+        const startNext = () => {
+            if (next >= routines.length) {
+                if (running === 0) finish();
+                return;
+            }
+            const index = next++;
+            running++;
+            settle(routines[index], signal, `${routineName} #${index + 1}`).then(result => {
+                running--;
+                results[index] = result;
+                if (isDecisive(result)) finish(result);
+                else if (!done) startNext();
+            });
+        };
+        if (signal.aborted) return finish();
+        signal.addEventListener('abort', () => finish(), { once: true });
+        for (let i = 0; i < Math.min(concurrency, Math.max(routines.length, 1)); i++) startNext();
+    });
+}
+
+/**
+ * Runs `routine`, settling routines that throw or reject as failed results named `fallbackName`.
+ */
+export function settle<T>(routine: Routine<T>, signal: AbortSignal, fallbackName: string): Promise<Result<T>> {
+    try {
+        return Promise.resolve(routine(signal)).then(result => result, reason => Result.fail(new PromiseRejection(reason), fallbackName));
+    }
+    catch (e) {
+        return Promise.resolve(Result.fail(new ExceptionalError(e), fallbackName));
+    }
+}
@@ -0,0 +1,44 @@
+import { SchemaIssueError } from './SchemaIssueError';
+
+/**
+ * A library-agnostic schema, following the "Standard Schema" interface (https://standardschema.dev)
+ * implemented by most TypeScript validation libraries. Accepted by {@link Result.parse} and `bindParse`.
+ */
+export interface StandardSchema<TInput = unknown, TOutput = TInput> {
+    readonly '~standard': {
+        readonly version: 1;
+        /** The name of the library providing the schema. */
+        readonly vendor: string;
+        /** Validates `value`, producing either the parsed value or the issues found. */
+        readonly validate: (value: unknown) => StandardSchemaResult<TOutput> | Promise<StandardSchemaResult<TOutput>>;
+        /** Type-level only: the schema's input and output types. */
+        readonly types?: { readonly input: TInput, readonly output: TOutput };
+    };
+}
+
+/**
+ * The outcome of {@link StandardSchema} validation: the parsed `value`, or the `issues` found.
+ */
+export type StandardSchemaResult<TOutput> =
+    | { readonly value: TOutput, readonly issues?: undefined }
+    | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * An issue found by {@link StandardSchema} validation.
+ */
+export interface StandardSchemaIssue {
+    readonly message: string;
+    /** The path of the offending field, as keys or `{ key }` segments. */
+    readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/**
+ * Converts the issues of a failed validation of `input` into {@link SchemaIssueError}s.
+ */
+export function toSchemaIssueErrors(issues: ReadonlyArray<StandardSchemaIssue>, input: unknown): SchemaIssueError[] {
+    return issues.map(issue => {
+        const segments = (issue.path ?? []).map(segment => typeof segment === 'object' ? segment.key : segment);
+        const value = segments.reduce<any>((current, key) => current == null ? undefined : current[key], input);
+        return new SchemaIssueError(segments, issue.message, value);
+    });
+}
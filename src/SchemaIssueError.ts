@@ -0,0 +1,21 @@
+import { ValidationError } from "./ValidationError";
+
+/**
+ * Records an issue reported by a schema validator (see {@link Result.parse}).
+ * Being a {@link ValidationError} with the rule code `schema`, it groups by field path like the errors of a `validate` block.
+ */
+export class SchemaIssueError extends ValidationError {
+    private _segments: PropertyKey[];
+    /**
+     * @param segments The path of the offending field as reported by the validator; empty for the input itself.
+     * @param message The issue message reported by the validator.
+     * @param value The offending value.
+     */
+    constructor(segments: PropertyKey[], message: string, value: unknown) {
+        super(segments.map(String).join('.'), 'schema', value, message);
+        this._segments = segments;
+    }
+    get segments(): PropertyKey[] {
+        return [...this._segments];
+    }
+}
@@ -0,0 +1,139 @@
+import { AError } from './AError';
+import { AReason } from './AReason';
+import { Instrumentation } from './Instrumentation';
+import { ReasonRegistry } from './ReasonRegistry';
+import { AResult, Result } from './Result';
+import { StepEntry, StepKind } from './Step';
+
+/** Mirrors OpenTelemetry's `SpanStatusCode`. */
+export enum SpanStatusCode {
+    UNSET = 0,
+    OK = 1,
+    ERROR = 2
+}
+
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * The subset of OpenTelemetry's `Span` API used by {@link SpanInstrumentation}.
+ */
+export interface SpanLike {
+    setAttribute(key: string, value: SpanAttributeValue): unknown;
+    addEvent(name: string, attributes?: SpanAttributes): unknown;
+    setStatus(status: { code: SpanStatusCode, message?: string }): unknown;
+    end(endTime?: number): void;
+}
+
+/**
+ * The subset of OpenTelemetry's `Tracer` API used by {@link SpanInstrumentation}.
+ *
+ * The only difference is the third argument of `startSpan`: the parent span itself rather than a context.
+ * Adapt an OpenTelemetry tracer with
+ * `(name, options, parent) => tracer.startSpan(name, options, parent && trace.setSpan(context.active(), parent))`.
+ */
+export interface TracerLike {
+    startSpan(name: string, options?: { attributes?: SpanAttributes, startTime?: number }, parent?: SpanLike): SpanLike;
+}
+
+/** Spans tracked for one routine: its own, the running step's, when it was last active and whether its span ended. */
+interface RoutineSpans {
+    span: SpanLike;
+    step?: SpanLike;
+    lastActivity: number;
+    ended: boolean;
+}
+
+/**
+ * {@link Instrumentation} that records a span per routine and a child span per step.
+ *
+ * • Contingency results get a routine span nested under the `failIf`/`failIfAsync` step span that spawned them.
+ * • Reasons become span events; failed steps and routines get an `ERROR` status carrying the first error's message.
+ * • A routine span ends, at its last activity, once its pipeline settles. Steps chained onto a settled pipeline later on
+ *   are still nested under it; {@link flush} waits for the routine spans still open.
+ */
+export class SpanInstrumentation implements Instrumentation {
+    private _tracer: TracerLike;
+    /** Every instrumented routine, including ended ones, so late steps find their parent span without keeping results alive. */
+    private _routines: WeakMap<AResult, RoutineSpans> = new WeakMap();
+    /** Routines whose span is still open. */
+    private _open: Set<AResult> = new Set();
+    private _flushes: (() => void)[] = [];
+
+    constructor(tracer: TracerLike) {
+        this._tracer = tracer;
+    }
+
+    public onPipelineStart(result: AResult): void {
+        this.startRoutine(result);
+    }
+
+    public onStepStart(result: AResult, step: { kind: StepKind, name?: string }): void {
+        const routine = this.routineOf(result);
+        routine.step = this._tracer.startSpan(step.name ?? step.kind, {
+            attributes: { 'result.step.kind': step.kind, 'result.routine': result.routineName },
+            startTime: Date.now()
+        }, routine.span);
+    }
+
+    public onStepEnd(result: AResult, entry: StepEntry): void {
+        const routine = this.routineOf(result);
+        const span = routine.step;
+        if (!span) return;
+        span.setAttribute('result.step.outcome', entry.outcome);
+        const error = entry.reasons.find((r): r is AError => r instanceof AError);
+        span.setStatus(error ? { code: SpanStatusCode.ERROR, message: error.message } : { code: SpanStatusCode.OK });
+        span.end(entry.endedAt);
+        routine.step = undefined;
+        routine.lastActivity = entry.endedAt;
+    }
+
+    public onReasonAdded(result: AResult, reason: AReason): void {
+        const routine = this.routineOf(result);
+        const { type, kind } = ReasonRegistry.serialize(reason);
+        (routine.step ?? routine.span).addEvent(`result.reason.${kind}`, { 'result.reason.type': type, 'result.reason.message': reason.message });
+        routine.lastActivity = Date.now();
+    }
+
+    public onContingency(parent: AResult, child: AResult): void {
+        const routine = this.routineOf(parent);
+        this.startRoutine(child, routine.step ?? routine.span);
+    }
+
+    public onPipelineSettled(result: AResult): void {
+        const routine = this._routines.get(result);
+        if (!routine || routine.ended) return;
+        const error = (result as Result).errors[0];
+        routine.span.setStatus(result.isFailed
+            ? { code: SpanStatusCode.ERROR, message: error?.message }
+            : { code: SpanStatusCode.OK });
+        routine.span.end(routine.lastActivity);
+        routine.ended = true;
+        this._open.delete(result);
+        if (this._open.size === 0) this._flushes.splice(0).forEach(resolve => resolve());
+    }
+
+    /**
+     * Waits until every routine span still open has ended, i.e. until every instrumented pipeline settled.
+     */
+    public flush(): Promise<void> {
+        return this._open.size === 0 ? Promise.resolve() : new Promise(resolve => this._flushes.push(resolve));
+    }
+
+    private startRoutine(result: AResult, parent?: SpanLike): RoutineSpans {
+        const now = Date.now();
+        const routine: RoutineSpans = {
+            span: this._tracer.startSpan(result.routineName, { attributes: { 'result.routine': result.routineName }, startTime: now }, parent),
+            lastActivity: now,
+            ended: false
+        };
+        this._routines.set(result, routine);
+        this._open.add(result);
+        return routine;
+    }
+
+    /** Results that were instrumented after they started get their routine span lazily. */
+    private routineOf(result: AResult): RoutineSpans {
+        return this._routines.get(result) ?? this.startRoutine(result);
+    }
+}
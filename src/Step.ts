@@ -0,0 +1,85 @@
+import { AReason } from './AReason';
+import { RetryPolicy } from './RetryPolicy';
+import { CircuitBreaker } from './CircuitBreaker';
+
+/** The chaining operation that produced a {@link StepEntry}. */
+export type StepKind = 'bind' | 'bindAsync' | 'okIf' | 'okIfAsync' | 'failIf' | 'failIfAsync' | 'withContingency' | 'withContingencyAsync' | 'validate' | 'validateAsync' | 'bindParse' | 'bindParseAsync'
+    | 'bindTo' | 'bindToAsync' | 'let' | 'bindCompensated' | 'bindCompensatedAsync';
+
+/**
+ * What happened to a step:
+ * • `ran` – executed and left the result successful.
+ * • `skipped` – not executed, e.g. because the result had already failed.
+ * • `failed` – executed and left the result failed.
+ * • `recovered` – executed and left the result failed, but a contingent routine it started succeeded.
+ */
+export type StepOutcome = 'ran' | 'skipped' | 'failed' | 'recovered';
+
+/**
+ * Per-step options accepted by every chaining method.
+ */
+export interface StepOptions {
+    /** A descriptive name for the step, recorded in the {@link StepEntry | journal}. */
+    name?: string;
+}
+
+/**
+ * Options bounding a single async action.
+ */
+export interface AttemptOptions {
+    /** Retries the async action when it throws or rejects. */
+    retry?: RetryPolicy;
+    /** Records a {@link TimeoutError} when an attempt takes longer, in milliseconds. The delegate's signal is aborted. */
+    timeoutMs?: number;
+    /** Fails each attempt at once with a {@link CircuitOpenError} while the breaker is open, and reports the outcome of the others to it. */
+    circuitBreaker?: CircuitBreaker;
+}
+
+/**
+ * Options accepted by async entry points such as {@link Result.tryAsync}.
+ */
+export interface AsyncOptions extends AttemptOptions {
+    /** Cancels the whole pipeline when aborted. See {@link Result.withSignal}. */
+    signal?: AbortSignal;
+}
+
+/**
+ * Per-step options accepted by async chaining methods such as {@link Result.bindAsync}.
+ */
+export interface AsyncStepOptions extends StepOptions, AttemptOptions { }
+
+/**
+ * A journal entry describing one chaining operation of a {@link Result}.
+ */
+export interface StepEntry {
+    /** The step name passed to the chaining method, if any. */
+    name?: string;
+    kind: StepKind;
+    /** The routine of the result that executed the step (differs from the root for contingency steps). */
+    routineName: string;
+    /** Epoch milliseconds at which the step started. */
+    startedAt: number;
+    /** Epoch milliseconds at which the step ended. */
+    endedAt: number;
+    outcome: StepOutcome;
+    /** The reasons the step added to the result. */
+    reasons: AReason[];
+}
+
+/**
+ * Normalises the `step` argument of chaining methods – a step name or {@link StepOptions}.
+ */
+export function toStepOptions<T extends StepOptions>(step?: string | T): T {
+    return (typeof step === 'string' ? { name: step } : step ?? {}) as T;
+}
+
+/**
+ * The state a step produced, as listed by {@link Result.stateHistory}.
+ */
+export interface StateSnapshot {
+    /** The step name passed to the chaining method, if any. */
+    name?: string;
+    kind: StepKind;
+    /** The state the step produced (by reference, not copied). */
+    state: unknown;
+}
@@ -0,0 +1,188 @@
+import { AError } from './AError';
+import { AsyncResult } from './AsyncResult';
+import { anySignal } from './Cancellation';
+import { ExceptionalError } from './ExceptionalError';
+import { PromiseRejection } from './PromiseRejection';
+import { Result } from './Result';
+import { settle } from './Routines';
+
+/**
+ * The items processed by {@link Result.stream}, pulled lazily one at a time.
+ */
+export type StreamSource<TItem> = Iterable<TItem> | AsyncIterable<TItem>;
+
+/**
+ * Turns one item of a {@link Result.stream} into its own (named) {@link Result}.
+ * It receives the item's position in the source and an `AbortSignal` aborted once the stream stops.
+ */
+export type StreamPipeline<TItem, T> = (item: TItem, index: number, signal: AbortSignal) => Result<T> | PromiseLike<Result<T>>;
+
+/**
+ * How many failed items a {@link Result.stream} tolerates before it stops early.
+ * The stream stops as soon as either limit is exceeded.
+ */
+export interface ErrorBudget {
+    /** The maximum number of failed items. */
+    maxFailures?: number;
+    /** The maximum share of failed items among the processed ones, between `0` and `1`. */
+    maxFailureRatio?: number;
+    /** The number of items to process before {@link maxFailureRatio} applies. Defaults to `1`. */
+    minItems?: number;
+}
+
+/**
+ * Options accepted by {@link Result.stream}.
+ */
+export interface StreamOptions {
+    /** The maximum number of items processed at once. Defaults to `1`. */
+    concurrency?: number;
+    /** Whether results are yielded in source order (the default) or as soon as they settle. */
+    ordered?: boolean;
+    /** Stops the stream once too many items failed. Unlimited when omitted. */
+    errorBudget?: ErrorBudget;
+    /** Stops the stream – and aborts every running item – when aborted. */
+    signal?: AbortSignal;
+}
+
+/**
+ * The state of the summary of a {@link Result.stream}.
+ */
+export interface StreamSummary {
+    /** The number of items yielded. */
+    processed: number;
+    /** The number of yielded items that succeeded. */
+    succeeded: number;
+    /** The number of yielded items that failed. */
+    failed: number;
+    /** Whether the stream stopped before exhausting its source. */
+    stoppedEarly: boolean;
+}
+
+/**
+ * The async iterable returned by {@link Result.stream}: it yields one {@link Result} per item and
+ * folds them into a summary {@link Result} once iteration ends.
+ *
+ * The stream is lazy and single-use: items are only pulled from the source while it is iterated.
+ */
+export class ResultStream<T> implements AsyncIterable<Result<T>> {
+    private _results: AsyncGenerator<Result<T>, void, undefined>;
+    private _summary: Promise<Result<StreamSummary>>;
+
+    /**
+     * @param results The per-item results; the generator settles `summary` once it ends.
+     * @param summary The summary result.
+     */
+    constructor(results: AsyncGenerator<Result<T>, void, undefined>, summary: Promise<Result<StreamSummary>>) {
+        this._results = results;
+        this._summary = summary;
+    }
+
+    [Symbol.asyncIterator](): AsyncIterator<Result<T>> {
+        return this._results;
+    }
+
+    /**
+     * Drains the items not iterated yet, then settles with the summary of the stream.
+     *
+     * • {@link Result.currentState} is a {@link StreamSummary}.
+     * • Its errors are those of every failed item, tagged with their `itemIndex` metadata, and an
+     *   {@link ErrorBudgetExceededError} when the stream stopped early because of its budget.
+     *
+     * Call it once iteration is over – or instead of iterating, to process every item for the summary alone.
+     */
+    public summary(): AsyncResult<StreamSummary> {
+        return new AsyncResult((async () => {
+            for await (const _ of this._results) { }
+            return this._summary;
+        })());
+    }
+}
+
+/**
+ * Internal helper—whether `budget` is exceeded once `failed` of `processed` items failed.
+ */
+export function exceedsBudget(budget: ErrorBudget | undefined, failed: number, processed: number): boolean {
+    if (!budget) return false;
+    if (budget.maxFailures !== undefined && failed > budget.maxFailures) return true;
+    return budget.maxFailureRatio !== undefined && processed >= (budget.minItems ?? 1) && failed / processed > budget.maxFailureRatio;
+}
+
+/**
+ * Runs `pipeline` over the items of `source`, at most `options.concurrency` at a time, yielding each item's result.
+ *
+ * Every yielded result is first passed to `onResult`; the stream stops once it returns `false`, once `options.signal`
+ * aborts or once the consumer stops iterating. Running items are then aborted and the source is closed.
+ * Items that throw or reject settle as failed results named after their position.
+ *
+ * @param onEnd Called once the stream ends, telling whether the source was exhausted and how reading it failed, if it did.
+ */
+export async function* streamResults<TItem, T>(source: StreamSource<TItem>, pipeline: StreamPipeline<TItem, T>, routineName: string,
+    options: StreamOptions, onResult: (result: Result<T>, index: number) => boolean, onEnd: (exhausted: boolean, failure?: AError) => void)
+    : AsyncGenerator<Result<T>, void, undefined> {
+    const concurrency = options.concurrency ?? 1;
+    const ordered = options.ordered ?? true;
+    const isAsync = Symbol.asyncIterator in source;
+    const iterator: Iterator<TItem> | AsyncIterator<TItem> = isAsync
+        ? (source as AsyncIterable<TItem>)[Symbol.asyncIterator]()
+        : (source as Iterable<TItem>)[Symbol.iterator]();
+    const controller = new AbortController();
+    const linked = options.signal ? anySignal([controller.signal, options.signal]) : undefined;
+    const signal = linked?.signal ?? controller.signal;
+    const aborted = new Promise<undefined>(resolve => {
+        if (signal.aborted) resolve(undefined);
+        else signal.addEventListener('abort', () => resolve(undefined), { once: true });
+    });
+    const running = new Map<number, Promise<{ index: number, result: Result<T> }>>();
+    const settled = new Map<number, Result<T>>();
+    let started = 0;
+    let nextToYield = 0;
+    let exhausted = false;
+    let stopped = false;
+    let failure: AError | undefined;
+    try {
+        while (!stopped && !signal.aborted) {
+            while (!exhausted && running.size + settled.size < concurrency) {
+                let next: IteratorResult<TItem>;
+                try {
+                    next = await iterator.next();
+                }
+                catch (e) {
+                    failure = isAsync ? new PromiseRejection(e) : new ExceptionalError(e);
+                    exhausted = true;
+                    break;
+                }
+                if (next.done) {
+                    exhausted = true;
+                    break;
+                }
+                const index = started++;
+                const item = next.value;
+                running.set(index, settle(itemSignal => pipeline(item, index, itemSignal), signal, `${routineName} #${index + 1}`)
+                    .then(result => ({ index, result })));
+            }
+            if (running.size === 0 || signal.aborted) break;
+            const outcome = await Promise.race([aborted, ...running.values()]);
+            if (!outcome) break;
+            running.delete(outcome.index);
+            if (!ordered) {
+                stopped = !onResult(outcome.result, outcome.index);
+                yield outcome.result;
+                continue;
+            }
+            settled.set(outcome.index, outcome.result);
+            while (!stopped && settled.has(nextToYield)) {
+                const index = nextToYield++;
+                const result = settled.get(index)!;
+                settled.delete(index);
+                stopped = !onResult(result, index);
+                yield result;
+            }
+        }
+    }
+    finally {
+        controller.abort();
+        linked?.dispose();
+        if (!exhausted) await iterator.return?.();
+        onEnd(exhausted && running.size === 0 && settled.size === 0, failure);
+    }
+}
@@ -0,0 +1,18 @@
+import { AError } from "./AError";
+
+/**
+ * Records that an async step – or a whole pipeline – did not finish within its timeout.
+ */
+export class TimeoutError extends AError {
+    private _timeoutMs: number;
+    /**
+     * @param timeoutMs The timeout that elapsed, in milliseconds.
+     */
+    constructor(timeoutMs: number) {
+        super(`Timed out after ${timeoutMs} ms`);
+        this._timeoutMs = timeoutMs;
+    }
+    get timeoutMs(): number {
+        return this._timeoutMs;
+    }
+}
@@ -0,0 +1,65 @@
+import { AError } from "./AError";
+import { AReason } from "./AReason";
+import { ASuccess } from "./ASuccess";
+import { AWarning } from "./AWarning";
+
+/*
+ * Placeholders revived by a ReasonRegistry for reason types it does not know.
+ * One per reason kind, so a revived result keeps its outcome, `errors`, `warnings` and `successes`.
+ */
+
+export class UnknownReason extends AReason {
+    private _originalType: string;
+    /**
+     * @param originalType The type name the reason was serialised with.
+     */
+    constructor(originalType: string, message: string) {
+        super(message);
+        this._originalType = originalType;
+    }
+    get originalType(): string {
+        return this._originalType;
+    }
+}
+
+export class UnknownError extends AError {
+    private _originalType: string;
+    /**
+     * @param originalType The type name the error was serialised with.
+     */
+    constructor(originalType: string, message: string) {
+        super(message);
+        this._originalType = originalType;
+    }
+    get originalType(): string {
+        return this._originalType;
+    }
+}
+
+export class UnknownWarning extends AWarning {
+    private _originalType: string;
+    /**
+     * @param originalType The type name the warning was serialised with.
+     */
+    constructor(originalType: string, message: string) {
+        super(message);
+        this._originalType = originalType;
+    }
+    get originalType(): string {
+        return this._originalType;
+    }
+}
+
+export class UnknownSuccess extends ASuccess {
+    private _originalType: string;
+    /**
+     * @param originalType The type name the success was serialised with.
+     */
+    constructor(originalType: string, message: string) {
+        super(message);
+        this._originalType = originalType;
+    }
+    get originalType(): string {
+        return this._originalType;
+    }
+}
@@ -0,0 +1,49 @@
+import { AError } from './AError';
+import { ValidationError } from './ValidationError';
+
+/**
+ * A rule of a `validate` block (see {@link Result.validate}).
+ */
+export interface ValidationRule<TState, TValid = boolean> {
+    /** Dot-separated path of the validated field, e.g. `address.zip`; empty for the state itself. */
+    path: string;
+    /** The rule code recorded on the {@link ValidationError}, e.g. `required`. */
+    code: string;
+    /**
+     * Returns `true` when the field is valid.
+     * @param value The value found at {@link path} (`undefined` when the path does not exist).
+     * @param state The whole validated state.
+     */
+    check: (value: any, state: TState) => TValid;
+    /** A human-readable explanation recorded on the {@link ValidationError}. */
+    message?: string;
+}
+
+/**
+ * A rule of a `validateAsync` block (see {@link Result.validateAsync}); its check may return a promise.
+ */
+export type AsyncValidationRule<TState> = ValidationRule<TState, boolean | PromiseLike<boolean>>;
+
+/**
+ * Reads the value at a dot-separated `path` of `value`; empty paths return `value` itself.
+ *
+ * @returns The value found, or `undefined` when any segment of the path is missing.
+ */
+export function readPath(value: unknown, path: string): unknown {
+    if (path === '') return value;
+    return path.split('.').reduce<any>((current, key) => current == null ? undefined : current[key], value);
+}
+
+/**
+ * Groups the {@link ValidationError}s among `errors` by field path, e.g. to render them next to form fields.
+ * Other errors are ignored.
+ */
+export function groupByPath(errors: AError[]): Record<string, ValidationError[]> {
+    const groups: Record<string, ValidationError[]> = {};
+    for (const error of errors) {
+        if (!(error instanceof ValidationError)) continue;
+        if (!groups[error.path]) groups[error.path] = [];
+        groups[error.path].push(error);
+    }
+    return groups;
+}
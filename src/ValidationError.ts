@@ -0,0 +1,31 @@
+import { AError } from "./AError";
+
+/**
+ * Records a failed validation rule of a `validate` block: which field failed, which rule, and the offending value.
+ */
+export class ValidationError extends AError {
+    private _path: string;
+    private _code: string;
+    private _value: unknown;
+    /**
+     * @param path Dot-separated path of the invalid field (e.g. `address.zip`); empty for the validated value itself.
+     * @param code The code of the failed rule (e.g. `required`).
+     * @param value The offending value.
+     * @param [message] A human-readable explanation; derived from `path` and `code` when omitted.
+     */
+    constructor(path: string, code: string, value: unknown, message?: string) {
+        super(message ?? `${path || 'Value'} failed validation rule '${code}'`);
+        this._path = path;
+        this._code = code;
+        this._value = value;
+    }
+    get path(): string {
+        return this._path;
+    }
+    get code(): string {
+        return this._code;
+    }
+    get value(): unknown {
+        return this._value;
+    }
+}
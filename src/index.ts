@@ -1,5 +1,36 @@
-export { AError } from './AError';
+export { AError, ErrorClass, ErrorMatcher } from './AError';
 export { AReason } from './AReason';
+export { ASuccess } from './ASuccess';
+export { AWarning } from './AWarning';
 export { ExceptionalError } from './ExceptionalError';
 export { PromiseRejection } from './PromiseRejection';
-export { AResult, Result } from './Result';
+export { RecoveredError } from './RecoveredError';
+export { RetryAttemptFailed } from './RetryAttemptFailed';
+export { RetriesExhaustedError } from './RetriesExhaustedError';
+export { TimeoutError } from './TimeoutError';
+export { CancelledError } from './CancelledError';
+export { ValidationError } from './ValidationError';
+export { SchemaIssueError } from './SchemaIssueError';
+export { ErrorBudgetExceededError } from './ErrorBudgetExceededError';
+export { CompensationFailedError } from './CompensationFailedError';
+export { CompensationSucceeded } from './CompensationSucceeded';
+export { CircuitOpenError } from './CircuitOpenError';
+export { CapturedThrowable, captureThrowable, reviveThrowable, safeStringify } from './CapturedThrowable';
+export { AResult, Result, MergedStates, MergedErrors, ResultErrors, AsyncStepError, RecoveredErrors, WithBinding, BindingContext, BoundValue, BoundErrors, SerializedResult, RESULT_WIRE_VERSION, Contingency, AsyncContingency } from './Result';
+export { AsyncResult } from './AsyncResult';
+export { ValidationRule, AsyncValidationRule, groupByPath } from './Validation';
+export { StandardSchema, StandardSchemaResult, StandardSchemaIssue } from './Schema';
+export { ErrorMatch, MatchHandlers, MatchOutcome, ThrowableClass } from './ErrorMatch';
+export { renderTree, RenderOptions } from './Rendering';
+export { Routine, RoutineOptions, RoutineResults, RoutineStates } from './Routines';
+export { ResultStream, StreamSource, StreamPipeline, StreamOptions, StreamSummary, ErrorBudget } from './Streams';
+export { FailurePolicy, FailurePolicies } from './FailurePolicy';
+export { ReasonRegistry, ReasonReviver, ReasonKind, SerializedReason } from './ReasonRegistry';
+export { UnknownReason, UnknownError, UnknownWarning, UnknownSuccess } from './UnknownReason';
+export { ProblemDetailsRegistry, ProblemDetails, ProblemType, ProblemReason, ProblemResponse, sendProblemDetails, PROBLEM_JSON_MEDIA_TYPE } from './ProblemDetails';
+export { StepEntry, StepKind, StepOptions, StepOutcome, StateSnapshot, AsyncOptions, AsyncStepOptions, AttemptOptions } from './Step';
+export { RetryPolicy, Backoff, Backoffs } from './RetryPolicy';
+export { CircuitBreaker, CircuitBreakerOptions, CircuitState, CircuitStateChange, CircuitPermit } from './CircuitBreaker';
+export { Instrumentation, registerInstrumentation } from './Instrumentation';
+export { SpanInstrumentation, SpanStatusCode, SpanLike, TracerLike, SpanAttributes, SpanAttributeValue } from './SpanInstrumentation';
+export { InMemoryTracer, InMemorySpanExporter, RecordedSpan } from './InMemoryTracer';
@@ -0,0 +1,142 @@
+/// <reference types="jest" preserve="true" />
+import { AError, ErrorClass, toErrorPredicate } from './AError';
+import { AReason } from './AReason';
+import { AWarning } from './AWarning';
+import { AResult, Result } from './Result';
+
+/**
+ * What {@link resultMatchers | toHaveError} looks for: an {@link AError} class, an exact error message or a predicate.
+ */
+export type ErrorExpectation = ErrorClass | string | ((error: AError) => boolean);
+
+declare global {
+    namespace jest {
+        interface Matchers<R, T = {}> {
+            /** Passes when the received {@link Result} is successful. */
+            toBeSuccess(): R;
+            /** Passes when the received {@link Result} is failed. */
+            toBeFailed(): R;
+            /** Passes when the received {@link Result} carries a state recursively equal to `expected`. */
+            toHaveState(expected: unknown): R;
+            /** Passes when the received {@link Result} recorded an error of the class, with the message or matching the predicate. */
+            toHaveError(expected: ErrorExpectation): R;
+            /** Passes when the received {@link Result} recorded exactly `count` reasons. */
+            toHaveReasonCount(count: number): R;
+            /** Passes when the received {@link Result} spawned a contingency – at any depth – named `routineName`. */
+            toHaveContingency(routineName: string): R;
+        }
+    }
+}
+
+/**
+ * Jest matchers for {@link Result}s. Importing `fluent-results/jest` registers them with `expect.extend`;
+ * pass them to `expect.extend` yourself when `expect` is not a global.
+ *
+ * Failure messages list the routine name, the outcome and every reason of the received result.
+ */
+export const resultMatchers = {
+    toBeSuccess(this: jest.MatcherContext, received: unknown): jest.CustomMatcherResult {
+        return check(this, 'toBeSuccess', received, '', result => ({
+            pass: result.isSuccess,
+            expected: this.isNot ? 'a failed result' : 'a successful result'
+        }));
+    },
+
+    toBeFailed(this: jest.MatcherContext, received: unknown): jest.CustomMatcherResult {
+        return check(this, 'toBeFailed', received, '', result => ({
+            pass: result.isFailed,
+            expected: this.isNot ? 'a successful result' : 'a failed result'
+        }));
+    },
+
+    toHaveState(this: jest.MatcherContext, received: unknown, expected: unknown): jest.CustomMatcherResult {
+        return check(this, 'toHaveState', received, this.utils.printExpected(expected), result => {
+            const hasState = hasCachedState(result);
+            const pass = hasState && this.equals(result.currentState, expected);
+            const detail = !hasState ? 'Received no state'
+                : pass ? `Received state: ${this.utils.printReceived(result.currentState)}`
+                    : this.utils.diff(expected, result.currentState) ?? '';
+            return { pass, expected: `${this.isNot ? 'not ' : ''}state ${this.utils.printExpected(expected)}`, detail };
+        });
+    },
+
+    toHaveError(this: jest.MatcherContext, received: unknown, expected: ErrorExpectation): jest.CustomMatcherResult {
+        const matches = typeof expected === 'string'
+            ? (error: AError) => error.message === expected
+            : toErrorPredicate(expected);
+        const isClass = typeof expected !== 'string' && (expected === AError || expected.prototype instanceof AError);
+        const description = typeof expected === 'string' ? `with message ${this.utils.printExpected(expected)}`
+            : isClass ? `of class ${expected.name}` : 'matching the predicate';
+        return check(this, 'toHaveError', received, typeof expected === 'string' ? this.utils.printExpected(expected) : isClass ? expected.name : 'predicate', result => ({
+            pass: result.errors.some(matches),
+            expected: `${this.isNot ? 'no error' : 'an error'} ${description}`
+        }));
+    },
+
+    toHaveReasonCount(this: jest.MatcherContext, received: unknown, count: number): jest.CustomMatcherResult {
+        return check(this, 'toHaveReasonCount', received, this.utils.printExpected(count), result => ({
+            pass: result.reasons.length === count,
+            expected: `${this.isNot ? 'not ' : ''}${count} reason${count === 1 ? '' : 's'}`
+        }));
+    },
+
+    toHaveContingency(this: jest.MatcherContext, received: unknown, routineName: string): jest.CustomMatcherResult {
+        return check(this, 'toHaveContingency', received, this.utils.printExpected(routineName), result => ({
+            pass: descendants(result).some(child => child.routineName === routineName),
+            expected: `${this.isNot ? 'no contingency' : 'a contingency'} named ${this.utils.printExpected(routineName)}`,
+            detail: `Contingencies: ${descendants(result).map(child => child.routineName).join(', ') || 'none'}`
+        }));
+    }
+};
+
+/**
+ * Internal helper—evaluates `assess` against `received` once it is known to be a {@link Result},
+ * and builds the failure message describing it.
+ */
+function check(context: jest.MatcherContext, matcherName: string, received: unknown, expectedHint: string,
+    assess: (result: Result) => { pass: boolean, expected: string, detail?: string }): jest.CustomMatcherResult {
+    const hint = context.utils.matcherHint(matcherName, 'result', expectedHint, { isNot: context.isNot });
+    if (!(received instanceof Result)) {
+        const awaitHint = received !== null && typeof received === 'object' && 'then' in received ? ' Did you forget to await an AsyncResult?' : '';
+        return {
+            pass: context.isNot === true,
+            message: () => `${hint}\n\nExpected a Result, received ${context.utils.printReceived(received)}.${awaitHint}`
+        };
+    }
+    const { pass, expected, detail } = assess(received);
+    return {
+        pass,
+        message: () => [hint, `Expected: ${expected}`, ...(detail ? [detail] : []), describeResult(received)].join('\n\n')
+    };
+}
+
+function hasCachedState(result: Result): boolean {
+    try {
+        result.currentState;
+        return true;
+    }
+    catch {
+        return false;
+    }
+}
+
+function descendants(result: AResult): AResult[] {
+    return result.children.flatMap(child => [child, ...descendants(child)]);
+}
+
+/**
+ * Internal helper—lists the routine name, the outcome and the reasons of `result`.
+ */
+function describeResult(result: Result): string {
+    const reasons = result.reasons.map(reason => `  ${symbol(reason)} ${reason.constructor.name}: ${reason.message}`);
+    return [
+        `Received: Result '${result.routineName}' (${result.isSuccess ? 'successful' : 'failed'})`,
+        ...(reasons.length > 0 ? reasons : ['  no reasons'])
+    ].join('\n');
+}
+
+function symbol(reason: AReason): string {
+    return reason instanceof AError ? '✗' : reason instanceof AWarning ? '!' : '•';
+}
+
+if (typeof expect !== 'undefined') expect.extend(resultMatchers);
@@ -0,0 +1,45 @@
+import { ExceptionalError } from "../src/ExceptionalError";
+import { Result } from "../src/Result";
+import { TestError } from "./setup/TestError";
+
+describe('AError.causedBy', () => {
+    it("should record a reason as a cause and return the same error for chaining", () => {
+        const rootCause = new TestError("Root cause");
+        const testError = new TestError("This is a test");
+        expect(testError.causedBy(rootCause)).toBe(testError);
+        expect(testError.causes).toEqual([rootCause]);
+    });
+
+    it("should wrap non-reason causes in an exceptional error", () => {
+        const e = new Error("Intentionally thrown exception");
+        const testError = new TestError("This is a test").causedBy(e);
+        expect(testError.causes.length).toBe(1);
+        expect(testError.causes[0]).toBeInstanceOf(ExceptionalError);
+        expect((testError.causes[0] as ExceptionalError).exception).toBe(e);
+    });
+
+    it("should accept errors produced inside a pipeline as causes", () => {
+        const result = Result.try(() => 42, "should accept errors produced inside a pipeline as causes")
+            .bind(() => { throw new Error("Intentionally thrown exception"); });
+        const testError = new TestError("This is a test").causedBy(result.errors[0]);
+        expect(testError.causes[0]).toBe(result.errors[0]);
+    });
+
+    it("should not expose the underlying store", () => {
+        const testError = new TestError("This is a test");
+        testError.causes.push(new TestError("Root cause"));
+        expect(testError.causes.length).toBe(0);
+    });
+
+    it("should reject causes that would make the causal chain circular", () => {
+        const a = new TestError("A");
+        const b = new TestError("B").causedBy(a);
+        const c = new TestError("C").causedBy(b).causedBy(a);
+        expect(() => a.causedBy(a)).toThrow("Error 'A' cannot be caused by 'A', which is or is caused by it.");
+        expect(() => a.causedBy(b)).toThrow("Error 'A' cannot be caused by 'B', which is or is caused by it.");
+        expect(() => a.causedBy(c)).toThrow();
+        expect(a.causes).toEqual([]);
+        expect(Result.fail(c, "Load user").hasError(e => e === a)).toBe(true);
+        expect(c.causedBy(new TestError("D").causedBy(a)).causes.length).toBe(3);
+    });
+});
@@ -6,4 +6,54 @@ describe('AReason.ctor', () => {
         const testError = new TestError(msg);
         expect(testError.message).toBe(msg);
     });
-});
\ No newline at end of file
+});
+
+describe('AReason.withMetadata', () => {
+    it("should attach metadata and return the same reason for chaining", () => {
+        const testError = new TestError("This is a test");
+        expect(testError.withMetadata("tenantId", "acme")).toBe(testError);
+        expect(testError.metadata).toEqual({ tenantId: "acme" });
+    });
+
+    it("should overwrite an existing key", () => {
+        const testError = new TestError("This is a test").withMetadata("status", 404).withMetadata("status", 500);
+        expect(testError.getMetadata<number>("status")).toBe(500);
+    });
+
+    it("should not expose the underlying store", () => {
+        const testError = new TestError("This is a test").withMetadata("status", 404);
+        testError.metadata["status"] = 500;
+        expect(testError.getMetadata("status")).toBe(404);
+    });
+});
+
+describe('AReason.copy', () => {
+    it("should copy class, message and metadata, keeping later metadata apart", () => {
+        const original = new TestError("This is a test").withMetadata("status", 404);
+        const copy = original.copy().withMetadata("status", 500);
+        expect(copy).toBeInstanceOf(TestError);
+        expect(copy.message).toBe("This is a test");
+        expect(original.getMetadata("status")).toBe(404);
+        expect(copy.getMetadata("status")).toBe(500);
+    });
+
+    it("should keep later causes apart", () => {
+        const original = new TestError("Outer").causedBy(new TestError("Inner"));
+        const copy = original.copy().causedBy(new TestError("Other"));
+        expect(original.causes.map(c => c.message)).toEqual(["Inner"]);
+        expect(copy.causes.map(c => c.message)).toEqual(["Inner", "Other"]);
+    });
+});
+
+describe('AReason.getMetadata', () => {
+    it("should return undefined for an absent key", () => {
+        const testError = new TestError("This is a test");
+        expect(testError.getMetadata("missing")).toBeUndefined();
+        expect(testError.hasMetadata("missing")).toBe(false);
+    });
+
+    it("should report keys holding undefined values as present", () => {
+        const testError = new TestError("This is a test").withMetadata("sqlState", undefined);
+        expect(testError.hasMetadata("sqlState")).toBe(true);
+    });
+});
@@ -0,0 +1,163 @@
+import { AsyncResult } from '../src/AsyncResult';
+import { ExceptionalError } from '../src/ExceptionalError';
+import { PromiseRejection } from '../src/PromiseRejection';
+import { Result } from '../src/Result';
+import { FailurePolicies } from '../src/FailurePolicy';
+import { TestError } from './setup/TestError';
+import { TestSuccess } from './setup/TestSuccess';
+import { TestWarning } from './setup/TestWarning';
+
+describe('AsyncResult.then', () => {
+    it("should be returned by every async entry point", () => {
+        expect(Result.tryAsync(async () => 42, "tryAsync")).toBeInstanceOf(AsyncResult);
+        expect(Result.try(() => 42, "bindAsync").bindAsync(async n => n)).toBeInstanceOf(AsyncResult);
+        expect(Result.try(() => 42, "okIfAsync").okIfAsync(async () => true, new TestError("This is a test error"))).toBeInstanceOf(AsyncResult);
+        expect(Result.try(() => 42, "failIfAsync").failIfAsync(async () => false, new TestError("This is a test error"))).toBeInstanceOf(AsyncResult);
+    });
+
+    it("should resolve to the underlying result when awaited", async () => {
+        const result = await Result.tryAsync(async () => 42, "should resolve to the underlying result when awaited");
+        expect(result).toBeInstanceOf(Result);
+        expect(result.isSuccess).toBe(true);
+        expect(result.currentState).toBe(42);
+    });
+
+    it("should forward rejections to the onrejected handler", async () => {
+        const asyncResult = new AsyncResult<number>(Promise.reject("Some random reason"));
+        const reason = await asyncResult.then(() => "fulfilled", r => r);
+        expect(reason).toBe("Some random reason");
+    });
+});
+
+describe('AsyncResult as a Promise', () => {
+    it("should handle rejections with catch", async () => {
+        const asyncResult = new AsyncResult<number>(Promise.reject("Some random reason"));
+        expect(await asyncResult.catch(reason => `caught: ${reason}`)).toBe("caught: Some random reason");
+        expect((await Result.tryAsync(async () => 42, "catch").catch(() => undefined))?.currentState).toBe(42);
+    });
+
+    it("should run finally handlers once settled either way", async () => {
+        const settled: string[] = [];
+        const result = await Result.tryAsync(async () => 42, "finally").finally(() => settled.push("fulfilled"));
+        await expect(new AsyncResult<number>(Promise.reject("Down")).finally(() => settled.push("rejected"))).rejects.toBe("Down");
+        expect(result.currentState).toBe(42);
+        expect(settled).toEqual(["fulfilled", "rejected"]);
+    });
+
+    it("should be tagged and typed as a promise", async () => {
+        const pending: Promise<Result<number>> = Result.tryAsync(async () => 42, "toStringTag");
+        expect(Object.prototype.toString.call(pending)).toBe("[object Promise]");
+        expect(pending).toBeInstanceOf(Promise);
+        expect((await pending).currentState).toBe(42);
+    });
+});
+
+describe('AsyncResult chaining', () => {
+    it("should chain async steps without awaiting each one", async () => {
+        const result = await Result.tryAsync(async () => 42, "should chain async steps without awaiting each one")
+            .bindAsync(async n => n + 1)
+            .okIfAsync(async n => n === 43, new TestError("This is a test error"))
+            .failIfAsync(async n => n !== 43, new TestError("This is a test error"))
+            .bindAsync(async n => n * 2);
+        expect(result.isSuccess).toBe(true);
+        expect(result.currentState).toBe(86);
+    });
+
+    it("should mix sync and async steps freely", async () => {
+        const result = await Result.tryAsync(async () => 42, "should mix sync and async steps freely")
+            .bind(n => n + 1)
+            .okIf(n => n === 43, new TestError("This is a test error"))
+            .bindAsync(async n => n + 1)
+            .failIf(n => n !== 44, new TestError("This is a test error"))
+            .bind(n => `${n}`);
+        expect(result.isSuccess).toBe(true);
+        expect(result.currentState).toBe("44");
+    });
+
+    it("should not execute steps past the point of failure", async () => {
+        let pi = 3.14;
+        const result = await Result.tryAsync(async () => 42, "should not execute steps past the point of failure")
+            .bindAsync(() => Promise.reject("Some random reason"))
+            .bind(() => { pi++; })
+            .bindAsync(async () => { pi++; })
+            .okIf(() => { pi++; return true; }, new TestError("This is a test error"));
+        expect(result.isSuccess).toBe(false);
+        expect(result.currentState).toBe(42);
+        expect(pi).toBe(3.14);
+        expect(result.errors.length).toBe(1);
+        expect(result.errors[0]).toBeInstanceOf(PromiseRejection);
+    });
+
+    it("should capture exceptions thrown by sync steps as exceptional errors", async () => {
+        const result = await Result.tryAsync(async () => 42, "should capture exceptions thrown by sync steps as exceptional errors")
+            .bind(() => { throw new Error("Intentionally thrown exception"); });
+        expect(result.isSuccess).toBe(false);
+        expect(result.errors.filter(err => err instanceof ExceptionalError).length).toBe(1);
+    });
+
+    it("should record guard errors pushed by okIf and failIf", async () => {
+        const okIfResult = await Result.tryAsync(async () => 42, "okIf").okIf(() => false, new TestError("This is a test error"));
+        const failIfResult = await Result.tryAsync(async () => 42, "failIf").failIf(() => true, new TestError("This is a test error"));
+        expect(okIfResult.errors.filter(err => err instanceof TestError).length).toBe(1);
+        expect(failIfResult.errors.filter(err => err instanceof TestError).length).toBe(1);
+    });
+
+    it("should execute contingent routines from failIf and failIfAsync", async () => {
+        const result = await Result.tryAsync(async () => 42, "Primary route")
+            .failIf(n => n > 40, new TestError("This is a test error"), { func: next => { }, routineName: "Contingent route" });
+        const asyncResult = await Result.tryAsync(async () => 42, "Primary route")
+            .failIfAsync(async n => n > 40, new TestError("This is a test error"), { func: next => { }, routineName: "Contingent route" });
+        expect(result.child?.routineName).toBe("Contingent route");
+        expect(result.child?.parent).toBe(result);
+        expect(asyncResult.child?.routineName).toBe("Contingent route");
+        expect(asyncResult.child?.parent).toBe(asyncResult);
+    });
+
+    it("should record successes and warnings and apply failure policies", async () => {
+        const result = await Result.tryAsync(async () => 12, "should record successes and warnings and apply failure policies")
+            .withSuccess(new TestSuccess("Imported rows"))
+            .withWarning(skipped => new TestWarning(`Skipped ${skipped} rows`))
+            .withFailurePolicy(FailurePolicies.warningsAsErrors);
+        expect(result.successes.length).toBe(1);
+        expect(result.warnings[0].message).toBe("Skipped 12 rows");
+        expect(result.isFailed).toBe(true);
+    });
+
+    it("should pass step names through to the journal", async () => {
+        const result = await Result.tryAsync(async () => 42, "should pass step names through to the journal")
+            .bind(n => n, "bind")
+            .bindAsync(async n => n, "bindAsync")
+            .okIf(() => true, new TestError("This is a test error"), "okIf")
+            .okIfAsync(async () => true, new TestError("This is a test error"), "okIfAsync")
+            .failIf(() => false, new TestError("This is a test error"), undefined, "failIf")
+            .failIfAsync(async () => false, new TestError("This is a test error"), undefined, "failIfAsync");
+        expect(result.steps.map(s => s.name)).toEqual(["bind", "bindAsync", "okIf", "okIfAsync", "failIf", "failIfAsync"]);
+    });
+
+    it("should expose the error-side operators", async () => {
+        const taps: string[] = [];
+        const result = await Result.tryAsync<number>(() => Promise.reject("Primary down"), "should expose the error-side operators")
+            .tapError(() => { taps.push("tapError"); })
+            .tapErrorAsync(async () => { taps.push("tapErrorAsync"); })
+            .mapError(e => new TestError(e.message))
+            .recover(e => e.message === "Other", () => 0)
+            .orElse(() => Result.fail(new TestError("Backup down"), "backup"))
+            .orElseAsync(() => Result.tryAsync(async () => 41, "second backup"))
+            .recover(TestError, () => 0)
+            .tap(() => { taps.push("tap"); })
+            .tapAsync(async () => { taps.push("tapAsync"); })
+            .bind(n => n + 1);
+        expect(result.currentState).toBe(42);
+        expect(taps).toEqual(["tapError", "tapErrorAsync", "tap", "tapAsync"]);
+    });
+
+    it("should run and resolve contingencies", async () => {
+        const result = await Result.tryAsync<number>(() => Promise.reject("Cache miss"), "should run and resolve contingencies")
+            .withContingency({ func: next => { next.bind(() => { throw new Error("Server down"); }); }, routineName: "Server route" })
+            .withContingencyAsync({ func: next => next.bindAsync(async () => 42), routineName: "Replica route" })
+            .resolveWith()
+            .bind(n => n + 1);
+        expect(result.currentState).toBe(43);
+        expect(result.children.length).toBe(2);
+    });
+});
@@ -0,0 +1,269 @@
+import { getEventListeners } from 'events';
+import { CancelledError } from '../src/CancelledError';
+import { anySignal, openAbortScope } from '../src/Cancellation';
+import { ExceptionalError } from '../src/ExceptionalError';
+import { Result } from '../src/Result';
+import { RetriesExhaustedError } from '../src/RetriesExhaustedError';
+import { RetryAttemptFailed } from '../src/RetryAttemptFailed';
+import { Backoffs } from '../src/RetryPolicy';
+import { TimeoutError } from '../src/TimeoutError';
+import { TestError } from './setup/TestError';
+
+/** A promise that settles after `ms` of (fake) time, aborting early with the signal's reason. */
+function delay<T>(ms: number, value: T, signal?: AbortSignal): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => resolve(value), ms);
+        signal?.addEventListener('abort', () => { clearTimeout(timer); reject(signal.reason); });
+    });
+}
+
+beforeEach(() => jest.useFakeTimers());
+afterEach(() => jest.useRealTimers());
+
+describe('Step timeouts', () => {
+    it("should record a timeout error and abort the delegate's signal", async () => {
+        let received: AbortSignal | undefined;
+        const pending = Result.ok(42, "should record a timeout error")
+            .bindAsync((n, signal) => { received = signal; return delay(5000, n + 1, signal); }, { name: "slow", timeoutMs: 1000 })
+            .bind(n => n + 1);
+        await jest.advanceTimersByTimeAsync(1000);
+        const result = await pending;
+        expect(result.isFailed).toBe(true);
+        expect(result.errors.length).toBe(1);
+        expect(result.errors[0]).toBeInstanceOf(TimeoutError);
+        expect((result.errors[0] as TimeoutError).timeoutMs).toBe(1000);
+        expect(result.errors[0].message).toBe("Timed out after 1000 ms");
+        expect(received?.aborted).toBe(true);
+        expect(result.steps.map(s => s.outcome)).toEqual(["failed", "skipped"]);
+    });
+
+    it("should not interfere with steps finishing in time", async () => {
+        const pending = Result.tryAsync(() => delay(500, 42), "should not interfere", { timeoutMs: 1000 })
+            .okIfAsync(n => delay(500, n === 42), new TestError("This is a test error"), { timeoutMs: 1000 });
+        await jest.advanceTimersByTimeAsync(1000);
+        const result = await pending;
+        expect(result.isSuccess).toBe(true);
+        expect(result.currentState).toBe(42);
+    });
+
+    it("should bound tryAsync, okIfAsync and failIfAsync", async () => {
+        const tried = Result.tryAsync(() => delay(5000, 42), "tryAsync", { timeoutMs: 100 });
+        const guarded = Result.ok(42, "okIfAsync").okIfAsync(() => delay(5000, true), new TestError("This is a test error"), { timeoutMs: 100 });
+        const triggered = Result.ok(42, "failIfAsync").failIfAsync(() => delay(5000, true), new TestError("This is a test error"), undefined, { timeoutMs: 100 });
+        await jest.advanceTimersByTimeAsync(100);
+        for (const result of await Promise.all([tried, guarded, triggered])) {
+            expect(result.errors.map(e => e.constructor)).toEqual([TimeoutError]);
+        }
+    });
+
+    it("should retry timed out attempts", async () => {
+        let calls = 0;
+        const pending = Result.tryAsync(() => ++calls < 3 ? delay(5000, 0) : delay(10, 42), "should retry timed out attempts",
+            { timeoutMs: 100, retry: { maxAttempts: 3 } });
+        await jest.advanceTimersByTimeAsync(1000);
+        const result = await pending;
+        expect(result.currentState).toBe(42);
+        expect(result.reasons.filter((r): r is RetryAttemptFailed => r instanceof RetryAttemptFailed).map(r => r.error.constructor)).toEqual([TimeoutError, TimeoutError]);
+    });
+});
+
+describe('Guard rejections', () => {
+    it("should be captured as exceptional errors, like throwing guards", async () => {
+        const rejected = await Result.ok(42, "should be captured as exceptional errors")
+            .okIfAsync(() => Promise.reject("Down"), new TestError("This is a test error"));
+        const thrown = await Result.ok(42, "should be captured as exceptional errors")
+            .failIfAsync(() => { throw new Error("Down"); }, new TestError("This is a test error"));
+        expect(rejected.errors.map(e => e.constructor)).toEqual([ExceptionalError]);
+        expect(thrown.errors.map(e => e.constructor)).toEqual([ExceptionalError]);
+    });
+});
+
+describe('Result.withSignal', () => {
+    it("should abandon the running step, record a cancelled error and skip later steps", async () => {
+        const controller = new AbortController();
+        let ran = false;
+        const pending = Result.tryAsync(signal => delay(5000, 42, signal), "should abandon the running step", { signal: controller.signal })
+            .bind(() => { ran = true; }, "after")
+            .bindAsync(async () => { ran = true; }, "after async");
+        await jest.advanceTimersByTimeAsync(100);
+        controller.abort("Client disconnected");
+        const result = await pending;
+        expect(ran).toBe(false);
+        expect(result.isCancelled).toBe(true);
+        expect(result.errors.length).toBe(1);
+        expect(result.errors[0]).toBeInstanceOf(CancelledError);
+        expect(result.errors[0].message).toBe("Cancelled: Client disconnected");
+        expect((result.errors[0] as CancelledError).reason).toBe("Client disconnected");
+        expect(result.steps.map(s => s.outcome)).toEqual(["skipped", "skipped"]);
+    });
+
+    it("should not run the action when already aborted", async () => {
+        const controller = new AbortController();
+        controller.abort();
+        let ran = false;
+        const result = await Result.tryAsync(async () => { ran = true; }, "should not run the action when already aborted", { signal: controller.signal });
+        expect(ran).toBe(false);
+        expect(result.errors[0]).toBeInstanceOf(CancelledError);
+    });
+
+    it("should skip sync steps once aborted, recording the cancellation once", () => {
+        const controller = new AbortController();
+        let calls = 0;
+        const result = Result.ok(42, "should skip sync steps once aborted")
+            .withSignal(controller.signal)
+            .bind(n => { calls++; return n; });
+        controller.abort();
+        result.bind(n => { calls++; return n; }).okIf(() => true, new TestError("This is a test error"));
+        expect(calls).toBe(1);
+        expect(result.errors.map(e => e.constructor)).toEqual([CancelledError]);
+    });
+
+    it("should record an abort between steps once the next step starts, never when read", () => {
+        const controller = new AbortController();
+        const result = Result.ok(42, "should record an abort between steps").withSignal(controller.signal);
+        controller.abort("Client disconnected");
+        expect([result.isCancelled, result.isSuccess, result.reasons]).toEqual([false, true, []]);
+        result.bind(n => n + 1);
+        expect([result.isCancelled, result.isSuccess]).toEqual([true, false]);
+        expect(result.errors.map(e => e.message)).toEqual(["Cancelled: Client disconnected"]);
+    });
+
+    it("should keep the outcome of a settled pipeline when its signal aborts later", async () => {
+        const controller = new AbortController();
+        const result = await Result.ok(1, "should keep the outcome").withSignal(controller.signal).bindAsync(async n => n + 1);
+        await jest.advanceTimersByTimeAsync(0);
+        controller.abort("Client disconnected");
+        expect([result.isCancelled, result.isSuccess, result.currentState, result.reasons]).toEqual([false, true, 2, []]);
+        expect(result.bind(n => n + 1).currentState).toBe(3);
+    });
+
+    it("should clear the timeout once the pipeline settled", async () => {
+        const result = await Result.ok(1, "should clear the timeout").withTimeout(50).bindAsync(async n => n + 1);
+        await jest.advanceTimersByTimeAsync(0);
+        expect(jest.getTimerCount()).toBe(0);
+        await jest.advanceTimersByTimeAsync(100);
+        expect([result.isSuccess, result.reasons]).toEqual([true, []]);
+        expect(result.bind(n => n + 1).isSuccess).toBe(true);
+    });
+
+    it("should stop listening to its signals once settled", async () => {
+        const shared = new AbortController();
+        for (let i = 0; i < 50; i++) {
+            await Result.ok(i, "should stop listening").withSignal(new AbortController().signal).withSignal(shared.signal).bindAsync(async n => n);
+        }
+        await jest.advanceTimersByTimeAsync(0);
+        expect(getEventListeners(shared.signal, 'abort').length).toBe(0);
+    });
+
+    it("should compose several signals", () => {
+        const first = new AbortController();
+        const second = new AbortController();
+        const result = Result.ok(42, "should compose several signals").withSignal(first.signal).withSignal(second.signal);
+        second.abort("Second");
+        expect(result.bind(n => n).errors[0].message).toBe("Cancelled: Second");
+        expect(result.isCancelled).toBe(true);
+    });
+
+    it("should stop retrying when aborted during backoff", async () => {
+        const controller = new AbortController();
+        let calls = 0;
+        const pending = Result.tryAsync(() => { calls++; return Promise.reject("Down"); }, "should stop retrying when aborted during backoff",
+            { signal: controller.signal, retry: { maxAttempts: 5, backoff: Backoffs.fixed(1000) } });
+        await jest.advanceTimersByTimeAsync(500);
+        controller.abort();
+        const result = await pending;
+        expect(calls).toBe(1);
+        expect(result.errors.map(e => e.constructor)).toEqual([CancelledError]);
+        expect(result.hasError(RetriesExhaustedError)).toBe(false);
+    });
+
+    it("should be inherited by contingency children", async () => {
+        const controller = new AbortController();
+        const result = Result.fail(new TestError("Cache miss"), "Primary route")
+            .withSignal(controller.signal)
+            .withContingency({ func: () => { }, routineName: "Contingent route" });
+        controller.abort();
+        const child = (result.child as Result).bind(() => 42);
+        expect(child.isCancelled).toBe(true);
+        expect(child.errors[0]).toBeInstanceOf(CancelledError);
+    });
+
+    it("should pass through AsyncResult", async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const result = await Result.tryAsync(async () => 42, "should pass through AsyncResult").withSignal(controller.signal).bind(n => n + 1);
+        expect(result.currentState).toBe(42);
+        expect(result.errors[0]).toBeInstanceOf(CancelledError);
+    });
+
+    it("should compose with AbortSignal.timeout", async () => {
+        jest.useRealTimers();
+        const result = await Result.tryAsync(() => new Promise(() => { }), "should compose with AbortSignal.timeout", { signal: AbortSignal.timeout(10) });
+        expect(result.errors[0]).toBeInstanceOf(CancelledError);
+        expect(((result.errors[0] as CancelledError).reason as Error).name).toBe("TimeoutError");
+    });
+});
+
+describe('Result.withTimeout', () => {
+    it("should cancel the pipeline with a timeout error", async () => {
+        const pending = Result.ok(42, "should cancel the pipeline with a timeout error")
+            .withTimeout(1000)
+            .bindAsync(n => delay(600, n + 1), "first")
+            .bindAsync(n => delay(600, n + 1), "second")
+            .bindAsync(n => delay(600, n + 1), "third");
+        await jest.advanceTimersByTimeAsync(1200);
+        const result = await pending;
+        expect(result.currentState).toBe(43);
+        expect(result.errors.map(e => e.constructor)).toEqual([TimeoutError]);
+        expect(result.steps.map(s => s.outcome)).toEqual(["ran", "failed", "skipped"]);
+    });
+
+    it("should pass through AsyncResult", async () => {
+        const pending = Result.tryAsync(async () => 42, "should pass through AsyncResult").withTimeout(100).bindAsync(n => delay(500, n));
+        await jest.advanceTimersByTimeAsync(100);
+        expect((await pending).errors[0]).toBeInstanceOf(TimeoutError);
+    });
+});
+
+describe.each([["AbortSignal.any", false], ["its own listeners", true]])('anySignal through %s', (_, withoutAny) => {
+    const any = AbortSignal.any;
+    beforeEach(() => {
+        if (withoutAny) Object.assign(AbortSignal, { any: undefined });
+    });
+    afterEach(() => Object.assign(AbortSignal, { any }));
+
+    it("should abort at once when a signal is already aborted", () => {
+        const controller = new AbortController();
+        controller.abort("Gone");
+        const { signal } = anySignal([new AbortController().signal, controller.signal]);
+        expect(signal.aborted).toBe(true);
+        expect(signal.reason).toBe("Gone");
+    });
+
+    it("should abort once a source aborts", () => {
+        const first = new AbortController();
+        const { signal } = anySignal([first.signal, new AbortController().signal]);
+        first.abort("Gone");
+        expect(signal.reason).toBe("Gone");
+    });
+
+    it("should leave no listeners on its sources once disposed or aborted", () => {
+        const shared = new AbortController();
+        const other = new AbortController();
+        anySignal([shared.signal, other.signal]).dispose();
+        const linked = anySignal([shared.signal, other.signal]);
+        other.abort("Gone");
+        expect(linked.signal.reason).toBe("Gone");
+        expect(getEventListeners(shared.signal, 'abort').length).toBe(0);
+    });
+});
+
+describe('openAbortScope', () => {
+    it("should stop following the pipeline signal once disposed", () => {
+        const controller = new AbortController();
+        const scope = openAbortScope(controller.signal);
+        scope.dispose();
+        controller.abort();
+        expect(scope.signal.aborted).toBe(false);
+    });
+});
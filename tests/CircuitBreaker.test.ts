@@ -0,0 +1,129 @@
+import { CircuitBreaker, CircuitBreakerOptions, CircuitState } from '../src/CircuitBreaker';
+import { CircuitOpenError } from '../src/CircuitOpenError';
+import { CancelledError } from '../src/CancelledError';
+import { PromiseRejection } from '../src/PromiseRejection';
+import { Result } from '../src/Result';
+import { RetryAttemptFailed } from '../src/RetryAttemptFailed';
+import { TimeoutError } from '../src/TimeoutError';
+import { ValidationError } from '../src/ValidationError';
+import { TestError } from './setup/TestError';
+
+/** A breaker over a fake clock, recording its transitions. */
+function breaker(options: Partial<CircuitBreakerOptions> = {}) {
+    const clock = { now: 0 };
+    const transitions: [CircuitState, CircuitState, number][] = [];
+    const circuit = new CircuitBreaker({ name: "payments", now: () => clock.now, ...options });
+    circuit.onStateChange(({ from, to, at }) => transitions.push([from, to, at]));
+    return { circuit, clock, transitions };
+}
+
+const down = () => Promise.reject("Down");
+const up = async () => 42;
+
+describe('CircuitBreaker', () => {
+    it("should open after consecutive failures and fail steps at once", async () => {
+        const { circuit, transitions } = breaker({ consecutiveFailures: 2 });
+        let calls = 0;
+        const call = () => { calls++; return down(); };
+        await Result.tryAsync(call, "Charge", { circuitBreaker: circuit });
+        await Result.tryAsync(call, "Charge", { circuitBreaker: circuit });
+        const result = await Result.ok(7, "Charge").bindAsync(call, { name: "charge card", circuitBreaker: circuit });
+        expect(calls).toBe(2);
+        expect(circuit.state).toBe('open');
+        expect(transitions).toEqual([['closed', 'open', 0]]);
+        expect(result.errors.map(e => e.constructor)).toEqual([CircuitOpenError]);
+        expect(result.errors[0].message).toBe("Circuit 'payments' is open");
+        expect((result.errors[0] as CircuitOpenError).circuitName).toBe("payments");
+        expect((result.errors[0] as CircuitOpenError).retryAfterMs).toBe(30000);
+    });
+
+    it("should reset the consecutive count on success", async () => {
+        const { circuit } = breaker({ consecutiveFailures: 2 });
+        for (const action of [down, up, down]) await Result.tryAsync(action, "Charge", { circuitBreaker: circuit });
+        expect(circuit.state).toBe('closed');
+    });
+
+    it("should open once the failure rate over the window reaches the threshold", async () => {
+        const { circuit } = breaker({ failureRate: 0.5, windowSize: 4, minimumCalls: 4 });
+        for (const action of [down, up, down]) await Result.tryAsync(action, "Charge", { circuitBreaker: circuit });
+        expect(circuit.state).toBe('closed');
+        await Result.tryAsync(up, "Charge", { circuitBreaker: circuit });
+        expect(circuit.state).toBe('closed');
+        await Result.tryAsync(down, "Charge", { circuitBreaker: circuit });
+        expect(circuit.state).toBe('open');
+    });
+
+    it("should only count the errors matched by tripIf", async () => {
+        const { circuit } = breaker({ consecutiveFailures: 1, tripIf: [PromiseRejection, TimeoutError] });
+        await Result.ok(7, "Charge").okIfAsync(() => { throw new Error("Bad input"); }, new ValidationError("amount", "positive", -1), { circuitBreaker: circuit });
+        expect(circuit.state).toBe('closed');
+        await Result.ok(7, "Charge").bindAsync(() => Promise.reject("Down"), { circuitBreaker: circuit });
+        expect(circuit.state).toBe('open');
+    });
+
+    it("should admit a trial call once half-open and close when it succeeds", async () => {
+        const { circuit, clock, transitions } = breaker({ consecutiveFailures: 1, openDurationMs: 1000 });
+        await Result.tryAsync(down, "Charge", { circuitBreaker: circuit });
+        clock.now = 400;
+        expect(circuit.retryAfterMs).toBe(600);
+        clock.now = 1000;
+        expect(circuit.state).toBe('halfOpen');
+        expect(circuit.retryAfterMs).toBe(0);
+        let release!: () => void;
+        const trial = Result.tryAsync(() => new Promise<number>(resolve => release = () => resolve(42)), "Charge", { circuitBreaker: circuit });
+        const rejected = await Result.tryAsync(up, "Charge", { circuitBreaker: circuit });
+        expect((rejected.errors[0] as CircuitOpenError).retryAfterMs).toBe(0);
+        release();
+        expect((await trial).currentState).toBe(42);
+        expect(transitions).toEqual([['closed', 'open', 0], ['open', 'halfOpen', 1000], ['halfOpen', 'closed', 1000]]);
+    });
+
+    it("should reopen when a trial call fails", async () => {
+        const { circuit, clock } = breaker({ consecutiveFailures: 1, openDurationMs: 1000 });
+        await Result.tryAsync(down, "Charge", { circuitBreaker: circuit });
+        clock.now = 1500;
+        await Result.tryAsync(down, "Charge", { circuitBreaker: circuit });
+        expect(circuit.state).toBe('open');
+        expect(circuit.retryAfterMs).toBe(1000);
+    });
+
+    it("should stop retrying once the circuit opens", async () => {
+        const { circuit } = breaker({ consecutiveFailures: 2 });
+        let calls = 0;
+        const result = await Result.tryAsync(() => { calls++; return down(); }, "Charge", { circuitBreaker: circuit, retry: { maxAttempts: 5 } });
+        expect(calls).toBe(2);
+        expect(result.errors.map(e => e.constructor)).toEqual([CircuitOpenError]);
+        expect(result.reasons.filter(r => r instanceof RetryAttemptFailed).length).toBe(2);
+    });
+
+    it("should ignore calls abandoned by cancellation and outcomes from before a transition", () => {
+        const { circuit, clock } = breaker({ consecutiveFailures: 1, openDurationMs: 1000 });
+        const stale = circuit.tryAcquire()!;
+        circuit.tryAcquire()!.complete(new TestError("Down"));
+        clock.now = 1000;
+        const trial = circuit.tryAcquire()!;
+        expect(circuit.tryAcquire()).toBeUndefined();
+        trial.complete(new CancelledError("Client disconnected"));
+        trial.complete();
+        stale.complete();
+        expect(circuit.state).toBe('halfOpen');
+        circuit.tryAcquire()!.complete();
+        expect(circuit.state).toBe('closed');
+    });
+
+    it("should swallow exceptions thrown by listeners and allow unsubscribing", () => {
+        const { circuit } = breaker({ consecutiveFailures: 1 });
+        const seen: CircuitState[] = [];
+        circuit.onStateChange(() => { throw new Error("Intentionally thrown exception"); });
+        const unsubscribe = circuit.onStateChange(({ to }) => seen.push(to));
+        unsubscribe();
+        unsubscribe();
+        circuit.tryAcquire()!.complete(new TestError("Down"));
+        expect(circuit.state).toBe('open');
+        expect(seen).toEqual([]);
+    });
+
+    it("should require a threshold", () => {
+        expect(() => new CircuitBreaker({ name: "payments" })).toThrow("Circuit breaker 'payments' needs a consecutiveFailures or failureRate threshold.");
+    });
+});
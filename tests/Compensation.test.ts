@@ -0,0 +1,140 @@
+import { CancelledError } from '../src/CancelledError';
+import { CompensationFailedError } from '../src/CompensationFailedError';
+import { CompensationSucceeded } from '../src/CompensationSucceeded';
+import { ExceptionalError } from '../src/ExceptionalError';
+import { PromiseRejection } from '../src/PromiseRejection';
+import { Result } from '../src/Result';
+import { TestError } from './setup/TestError';
+
+describe('Result.compensate', () => {
+    it("should run the compensations in reverse order, each receiving its step's output", async () => {
+        const undone: string[] = [];
+        const result = await Result.ok(7, "Place order")
+            .bindCompensated(id => `row-${id}`, row => { undone.push(row); }, "insert row")
+            .bindCompensatedAsync(async row => `msg-${row}`, async message => { undone.push(message); }, "send message")
+            .okIf(() => false, new TestError("Payment declined"), "charge card")
+            .compensate();
+        expect(undone).toEqual(["msg-row-7", "row-7"]);
+        expect(result.isFailed).toBe(true);
+        expect(result.successes.map(s => s.constructor)).toEqual([CompensationSucceeded, CompensationSucceeded]);
+        expect(result.successes.map(s => (s as CompensationSucceeded).stepName)).toEqual(["send message", "insert row"]);
+        expect(result.successes[0].message).toBe("Compensated step 'send message'");
+    });
+
+    it("should never run compensations of failed or skipped steps", async () => {
+        const undone: string[] = [];
+        const result = await Result.ok(7, "Place order")
+            .bindCompensated(() => "first", out => { undone.push(out); })
+            .bindCompensated((): string => { throw new Error("Intentionally thrown exception"); }, out => { undone.push(out); })
+            .bindCompensatedAsync(async () => "third", out => { undone.push(out); })
+            .compensate();
+        expect(undone).toEqual(["first"]);
+        expect(result.steps.map(s => [s.kind, s.outcome])).toEqual([["bindCompensated", "ran"], ["bindCompensated", "failed"], ["bindCompensatedAsync", "skipped"]]);
+        expect(result.successes[0].message).toBe("Compensated an unnamed step");
+    });
+
+    it("should record failed compensations and keep running the others", async () => {
+        const undone: string[] = [];
+        const result = await Result.ok(7, "Place order")
+            .bindCompensated(() => "first", out => { undone.push(out); }, "first")
+            .bindCompensated(() => "second", () => { throw new Error("Row locked"); }, "second")
+            .bindCompensatedAsync(async () => "third", () => Promise.reject("Broker down"), "third")
+            .compensate();
+        expect(undone).toEqual(["first"]);
+        expect(result.errors.map(e => e.constructor)).toEqual([CompensationFailedError, CompensationFailedError]);
+        expect(result.errors.map(e => e.message)).toEqual([
+            "Compensation of step 'third' failed: Broker down",
+            "Compensation of step 'second' failed: Row locked"
+        ]);
+        expect(result.errors.map(e => e.causes[0].constructor)).toEqual([PromiseRejection, ExceptionalError]);
+        expect((result.errors[0] as CompensationFailedError).stepName).toBe("third");
+    });
+
+    it("should run every compensation at most once", async () => {
+        let calls = 0;
+        const result = Result.ok(7, "Place order").bindCompensated(id => id, () => { calls++; });
+        await result.compensate();
+        await result.compensate();
+        expect(calls).toBe(1);
+        expect(result.successes.length).toBe(1);
+    });
+});
+
+describe('Result.withCompensationOnFailure', () => {
+    it("should compensate as soon as a step fails", () => {
+        const undone: number[] = [];
+        const result = Result.ok(7, "Place order")
+            .withCompensationOnFailure()
+            .bindCompensated(id => id + 1, out => { undone.push(out); })
+            .bindCompensated(id => id + 1, out => { undone.push(out); });
+        expect(undone).toEqual([]);
+        result.okIf(() => false, new TestError("Payment declined"));
+        expect(undone).toEqual([9, 8]);
+        expect(result.successes.length).toBe(2);
+    });
+
+    it("should not compensate successful pipelines", async () => {
+        let calls = 0;
+        const result = await Result.ok(7, "Place order")
+            .withCompensationOnFailure()
+            .bindCompensatedAsync(async id => id, () => { calls++; })
+            .bind(id => id + 1);
+        expect(calls).toBe(0);
+        expect(result.isSuccess).toBe(true);
+    });
+
+    it("should compensate async steps failing the pipeline", async () => {
+        const undone: string[] = [];
+        const result = await Result.ok(7, "Place order")
+            .withCompensationOnFailure()
+            .bindCompensatedAsync(async () => "row", async row => { undone.push(row); })
+            .bindAsync(() => Promise.reject("Down"));
+        expect(undone).toEqual(["row"]);
+        expect(result.reasons.map(r => r.constructor)).toEqual([PromiseRejection, CompensationSucceeded]);
+    });
+
+    it("should compensate when a cancellation between steps fails the pipeline", async () => {
+        const undone: number[] = [];
+        for (const next of [(r: Result<number>) => r.bind(n => n), (r: Result<number>) => r.bindAsync(async n => n)]) {
+            const controller = new AbortController();
+            const result = Result.ok(7, "Place order")
+                .withSignal(controller.signal)
+                .withCompensationOnFailure()
+                .bindCompensated(id => id + 1, out => { undone.push(out); });
+            controller.abort();
+            await next(result);
+            expect(result.errors.map(e => e.constructor)).toEqual([CancelledError]);
+        }
+        expect(undone).toEqual([8, 8]);
+    });
+
+    it("should never compensate a finished saga when its signal aborts later", async () => {
+        const undone: number[] = [];
+        const controller = new AbortController();
+        const result = await Result.ok(7, "Place order")
+            .withSignal(controller.signal)
+            .withCompensationOnFailure()
+            .bindCompensatedAsync(async id => id + 1, async out => { undone.push(out); });
+        controller.abort();
+        expect([result.isSuccess, result.isFailed, result.reasons, result.toJSON().reasons]).toEqual([true, false, [], []]);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(result.isSuccess).toBe(true);
+        expect(undone).toEqual([]);
+    });
+
+    it("should let awaiting wait for async compensations started by a sync step", async () => {
+        const undone: string[] = [];
+        const compensate = (row: string) => new Promise<void>(resolve => setTimeout(() => { undone.push(row); resolve(); }, 10));
+        const pending = Result.ok(7, "Place order")
+            .withCompensationOnFailure()
+            .bindCompensatedAsync(async () => "row", compensate)
+            .okIf(() => false, new TestError("Payment declined"));
+        expect((await pending).successes.length).toBe(1);
+        expect(undone).toEqual(["row"]);
+
+        const result = Result.ok(7, "Place order").withCompensationOnFailure().bindCompensated(() => "row", compensate).okIf(() => false, new TestError("Payment declined"));
+        expect(result.successes.length).toBe(0);
+        expect(await result.compensated).toBe(result);
+        expect(result.successes.length).toBe(1);
+    });
+});
@@ -0,0 +1,88 @@
+import { AError } from '../src/AError';
+import { ExceptionalError } from '../src/ExceptionalError';
+import { Result } from '../src/Result';
+import { TestError } from './setup/TestError';
+
+class AuthError extends AError { }
+class ExpiredTokenError extends AuthError { }
+class NotFoundError extends AError { }
+
+describe('Result.match', () => {
+    it("should call ok with the state when successful", () => {
+        const status: string = Result.ok(42, "should call ok").match({ ok: n => `ok ${n}`, fail: errors => `failed ${errors.length}` });
+        expect(status).toBe("ok 42");
+    });
+
+    it("should call fail with the errors when failed", () => {
+        const status = Result.fail(new TestError("This is a test error"), "should call fail")
+            .match({ ok: () => "ok", fail: errors => errors[0].message });
+        expect(status).toBe("This is a test error");
+    });
+
+    it("should await async handlers on AsyncResult", async () => {
+        const status = await Result.tryAsync(async () => 42, "should await async handlers")
+            .match({ ok: async n => n + 1, fail: () => 0 });
+        expect(status).toBe(43);
+    });
+});
+
+describe('Result.matchError', () => {
+    it("should dispatch the first matched error", () => {
+        const status = Result.fail([new TestError("Unrelated"), new NotFoundError("No such user"), new AuthError("Forbidden")], "should dispatch the first matched error")
+            .matchError()
+            .on(AuthError, () => 403)
+            .on(NotFoundError, e => e.message.length)
+            .otherwise(() => 500);
+        expect(status).toBe("No such user".length);
+    });
+
+    it("should prefer the most specific class", () => {
+        const status = Result.fail(new ExpiredTokenError("Token expired"), "should prefer the most specific class")
+            .matchError()
+            .on(AuthError, () => "auth")
+            .on(ExpiredTokenError, () => "expired")
+            .on(AError, () => "any")
+            .otherwise(() => "none");
+        expect(status).toBe("expired");
+    });
+
+    it("should fall back to otherwise with every error", () => {
+        const errors = [new TestError("First"), new TestError("Second")];
+        const seen = Result.fail(errors, "should fall back").matchError().on(AuthError, () => []).otherwise(all => all);
+        expect(seen).toEqual(errors);
+    });
+
+    it("should call otherwise without errors when successful", () => {
+        expect(Result.ok(42, "should call otherwise").matchError().on(AuthError, () => 403).otherwise(errors => errors.length)).toBe(0);
+    });
+
+    it("should look through exceptions and rejection reasons", async () => {
+        const thrown = Result.try(() => JSON.parse("{"), "should look through exceptions")
+            .matchError()
+            .on(SyntaxError, e => `syntax: ${e.name}`)
+            .otherwise(() => "other");
+        expect(thrown).toBe("syntax: SyntaxError");
+        const rejected = await Result.tryAsync(() => Promise.reject(new RangeError("Out of range")), "should look through rejection reasons")
+            .matchError()
+            .on(RangeError, e => e.message)
+            .otherwise(() => "other");
+        expect(rejected).toBe("Out of range");
+    });
+
+    it("should still match the wrapper class itself", () => {
+        const status = Result.try(() => { throw "plain string"; }, "should still match the wrapper class")
+            .matchError()
+            .on(ExceptionalError, e => e.message)
+            .otherwise(() => "other");
+        expect(status).toBe("plain string");
+    });
+
+    it("should await async handlers on AsyncResult", async () => {
+        const status: number = await Result.tryAsync(async () => 42, "should await async handlers")
+            .okIf(() => false, new NotFoundError("No such user"))
+            .matchError()
+            .on(NotFoundError, async () => 404)
+            .otherwise(() => 500);
+        expect(status).toBe(404);
+    });
+});
@@ -1,4 +1,8 @@
 import { ExceptionalError } from "../src/ExceptionalError";
+import { Result } from "../src/Result";
+
+// AggregateError is an ES2021 global; the compiler targets ES2020.
+const AggregateErrorCtor = (globalThis as any).AggregateError as new (errors: unknown[], message: string) => Error;
 
 describe('ExceptionalError.ctor', () => {
     it("should capture the passed exception", () => {
@@ -6,4 +10,118 @@ describe('ExceptionalError.ctor', () => {
         const expError = new ExceptionalError(e);
         expect(expError.exception).toBe(e);
     });
-});
\ No newline at end of file
+});
+
+describe('ExceptionalError capture', () => {
+    it("should capture name, message and stack of an error", () => {
+        const e = new TypeError("Intentionally thrown exception");
+        const expError = new ExceptionalError(e);
+        expect(expError.message).toBe("Intentionally thrown exception");
+        expect(expError.name).toBe("TypeError");
+        expect(expError.stack).toBe(e.stack);
+    });
+
+    it("should capture the cause chain of an error", () => {
+        const root = new RangeError("Root cause");
+        const e = Object.assign(new Error("Intentionally thrown exception"), { cause: root });
+        const expError = new ExceptionalError(e);
+        expect(expError.cause?.name).toBe("RangeError");
+        expect(expError.cause?.message).toBe("Root cause");
+    });
+
+    it("should capture non-error causes", () => {
+        const expError = new ExceptionalError(Object.assign(new Error("Intentionally thrown exception"), { cause: { code: 42 } }));
+        expect(expError.cause).toEqual({ message: '{"code":42}' });
+    });
+
+    it("should tolerate cyclic cause chains", () => {
+        const e: Error & { cause?: unknown } = new Error("Intentionally thrown exception");
+        e.cause = e;
+        const expError = new ExceptionalError(e);
+        expect(expError.cause).toEqual({ message: "[Circular]" });
+    });
+
+    it("should capture the inner errors of an aggregate error", () => {
+        const e = new AggregateErrorCtor([new Error("First"), "Second"], "Intentionally thrown exception");
+        const expError = new ExceptionalError(e);
+        expect(expError.name).toBe("AggregateError");
+        expect(expError.innerErrors?.map(inner => inner.message)).toEqual(["First", "Second"]);
+    });
+
+    it("should tolerate aggregate errors containing themselves", () => {
+        const errors: unknown[] = [];
+        const e = new AggregateErrorCtor(errors, "Intentionally thrown exception");
+        errors.push(e);
+        Object.defineProperty(e, "errors", { value: errors });
+        const expError = new ExceptionalError(e);
+        expect(expError.innerErrors).toEqual([{ message: "[Circular]" }]);
+    });
+
+    it("should use strings verbatim", () => {
+        const expError = new ExceptionalError("Some random reason");
+        expect(expError.message).toBe("Some random reason");
+        expect(expError.name).toBeUndefined();
+        expect(expError.stack).toBeUndefined();
+    });
+
+    it("should render undefined and null", () => {
+        expect(new ExceptionalError(undefined).message).toBe("undefined");
+        expect(new ExceptionalError(null).message).toBe("null");
+    });
+
+    it("should serialise plain objects", () => {
+        expect(new ExceptionalError({ code: 42, tags: ["a"] }).message).toBe('{"code":42,"tags":["a"]}');
+    });
+
+    it("should tolerate cyclic objects", () => {
+        const o: { self?: unknown, sibling: { code: number } } = { sibling: { code: 42 } };
+        o.self = o;
+        const expError = new ExceptionalError(o);
+        expect(expError.message).toBe('{"sibling":{"code":42},"self":"[Circular]"}');
+    });
+
+    it("should not mistake repeated references for cycles", () => {
+        const shared = { code: 42 };
+        expect(new ExceptionalError({ a: shared, b: shared }).message).toBe('{"a":{"code":42},"b":{"code":42}}');
+    });
+
+    it("should tolerate BigInt values", () => {
+        expect(new ExceptionalError(BigInt(42)).message).toBe("42n");
+        expect(new ExceptionalError({ id: BigInt(42) }).message).toBe('{"id":"42n"}');
+    });
+
+    it("should render symbols and functions", () => {
+        expect(new ExceptionalError(Symbol("boom")).message).toBe("Symbol(boom)");
+        expect(new ExceptionalError({ s: Symbol("boom") }).message).toBe('{"s":"Symbol(boom)"}');
+    });
+
+    it("should fall back to the string form of values that serialise to nothing", () => {
+        expect(new ExceptionalError({ toJSON: () => undefined, toString: () => "opted out" }).message).toBe("opted out");
+    });
+
+    it("should tolerate values whose serialisation throws", () => {
+        const hostile = { toJSON() { throw new Error("Nope"); }, toString() { return "hostile"; } };
+        expect(new ExceptionalError(hostile).message).toBe("hostile");
+    });
+
+    it("should tolerate values that cannot be converted to a string at all", () => {
+        const hostile = Object.create(null);
+        hostile.toJSON = () => { throw new Error("Nope"); };
+        expect(new ExceptionalError(hostile).message).toBe("[object Object]");
+    });
+
+    it("should tolerate errors with throwing getters", () => {
+        const e = new Error("Intentionally thrown exception");
+        Object.defineProperty(e, "message", { get() { throw new Error("Nope"); } });
+        Object.defineProperty(e, "cause", { get() { throw new Error("Nope"); } });
+        const expError = new ExceptionalError(e);
+        expect(expError.message).toBe("");
+        expect(expError.cause).toBeUndefined();
+    });
+
+    it("should not let unserialisable exceptions escape Result.try", () => {
+        const result = Result.try(() => { throw BigInt(42); }, "should not let unserialisable exceptions escape Result.try");
+        expect(result.isFailed).toBe(true);
+        expect(result.errors[0].message).toBe("42n");
+    });
+});
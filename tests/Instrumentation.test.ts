@@ -0,0 +1,126 @@
+import { AReason } from '../src/AReason';
+import { ExceptionalError } from '../src/ExceptionalError';
+import { Instrumentation, registerInstrumentation } from '../src/Instrumentation';
+import { AResult, Result } from '../src/Result';
+import { StepEntry } from '../src/Step';
+import { TestError } from './setup/TestError';
+
+class RecordingInstrumentation implements Instrumentation {
+    public calls: string[] = [];
+    onPipelineStart(result: AResult) { this.calls.push(`pipelineStart:${result.routineName}`); }
+    onStepStart(result: AResult, step: { kind: string, name?: string }) { this.calls.push(`stepStart:${step.kind}:${step.name}`); }
+    onStepEnd(result: AResult, entry: StepEntry) { this.calls.push(`stepEnd:${entry.kind}:${entry.outcome}`); }
+    onReasonAdded(result: AResult, reason: AReason) { this.calls.push(`reason:${reason.constructor.name}`); }
+    onContingency(parent: AResult, child: AResult) { this.calls.push(`contingency:${parent.routineName}->${child.routineName}`); }
+    onPipelineSettled(result: AResult) { this.calls.push(`settled:${result.routineName}`); }
+}
+
+/** Lets pending settle notifications fire. */
+const nextTurn = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('registerInstrumentation', () => {
+    let unregister: () => void;
+    let instrumentation: RecordingInstrumentation;
+
+    beforeEach(() => {
+        instrumentation = new RecordingInstrumentation();
+        unregister = registerInstrumentation(instrumentation);
+    });
+
+    afterEach(() => unregister());
+
+    it("should notify every hook in execution order", () => {
+        Result.try(() => 42, "Primary route")
+            .bind(n => n + 1, "increment")
+            .failIf(() => true, new TestError("Cache miss"), {
+                func: next => { (next as Result).bind(() => { throw new Error("Intentionally thrown exception"); }); },
+                routineName: "Contingent route"
+            });
+        expect(instrumentation.calls).toEqual([
+            "pipelineStart:Primary route",
+            "stepStart:bind:increment",
+            "stepEnd:bind:ran",
+            "stepStart:failIf:undefined",
+            "reason:TestError",
+            "contingency:Primary route->Contingent route",
+            "stepStart:bind:undefined",
+            "reason:ExceptionalError",
+            "stepEnd:bind:failed",
+            "stepEnd:failIf:failed"
+        ]);
+    });
+
+    it("should notify from async entry points and steps", async () => {
+        await Result.tryAsync(() => Promise.reject("Some random reason"), "Async route")
+            .bindAsync(async () => 42);
+        expect(instrumentation.calls).toEqual([
+            "pipelineStart:Async route",
+            "reason:PromiseRejection",
+            "stepStart:bindAsync:undefined",
+            "stepEnd:bindAsync:skipped"
+        ]);
+    });
+
+    it("should notify pipeline starts from factories", () => {
+        Result.merge(Result.ok(42, "ok"), Result.fail(new TestError("This is a test error"), "fail"));
+        expect(instrumentation.calls).toEqual([
+            "pipelineStart:ok",
+            "pipelineStart:fail",
+            "reason:TestError",
+            "pipelineStart:ok + fail",
+            "reason:TestError"
+        ]);
+    });
+
+    it("should notify once a pipeline settled, and again after it resumed", async () => {
+        const settled = () => instrumentation.calls.filter(call => call.startsWith("settled:Settling"));
+        const result = await Result.tryAsync(async () => 42, "Settling route")
+            .bindAsync(async n => n + 1, "increment")
+            .failIf(() => true, new TestError("Cache miss"), { func: () => { }, routineName: "Settling contingency" });
+        expect(settled()).toEqual([]);
+        await nextTurn();
+        expect(settled()).toEqual(["settled:Settling contingency", "settled:Settling route"]);
+        result.bind(n => n, "late");
+        await nextTurn();
+        expect(instrumentation.calls.slice(-3)).toEqual(["stepStart:bind:late", "stepEnd:bind:skipped", "settled:Settling route"]);
+    });
+
+    it("should stop notifying once unregistered", () => {
+        unregister();
+        unregister();
+        Result.try(() => 42, "Primary route");
+        expect(instrumentation.calls).toEqual([]);
+    });
+});
+
+describe('Result.withInstrumentation', () => {
+    it("should notify per-result instrumentation", () => {
+        const instrumentation = new RecordingInstrumentation();
+        Result.ok(42, "Primary route").withInstrumentation(instrumentation).okIf(() => false, new TestError("This is a test error"));
+        expect(instrumentation.calls).toEqual(["stepStart:okIf:undefined", "reason:TestError", "stepEnd:okIf:failed"]);
+    });
+
+    it("should be inherited by contingency children", () => {
+        const instrumentation = new RecordingInstrumentation();
+        Result.ok(42, "Primary route").withInstrumentation(instrumentation)
+            .failIf(() => true, new TestError("This is a test error"), { func: next => { (next as Result).bind(() => 43); }, routineName: "Contingent route" });
+        expect(instrumentation.calls).toContain("stepEnd:bind:ran");
+    });
+
+    it("should be available on async results", async () => {
+        const instrumentation = new RecordingInstrumentation();
+        await Result.tryAsync(async () => 42, "Primary route").withInstrumentation(instrumentation).bind(n => n);
+        expect(instrumentation.calls).toEqual(["stepStart:bind:undefined", "stepEnd:bind:ran"]);
+    });
+
+    it("should never let instrumentation affect the outcome", () => {
+        const hostile: Instrumentation = {
+            onStepStart: () => { throw new Error("Nope"); },
+            onReasonAdded: () => { throw new Error("Nope"); }
+        };
+        const result = Result.ok(42, "Primary route").withInstrumentation(hostile)
+            .bind(() => { throw new Error("Intentionally thrown exception"); });
+        expect(result.errors.length).toBe(1);
+        expect(result.errors[0]).toBeInstanceOf(ExceptionalError);
+    });
+});
@@ -0,0 +1,102 @@
+import { createServer, get, Server } from 'http';
+import { AddressInfo } from 'net';
+import { ExceptionalError } from '../src/ExceptionalError';
+import { PROBLEM_JSON_MEDIA_TYPE, ProblemDetailsRegistry, sendProblemDetails } from '../src/ProblemDetails';
+import { PromiseRejection } from '../src/PromiseRejection';
+import { Result } from '../src/Result';
+import { TestError } from './setup/TestError';
+import { TestWarning } from './setup/TestWarning';
+
+class NotFoundError extends TestError { }
+class UserNotFoundError extends NotFoundError { }
+
+const notFound = { type: "https://example.com/problems/not-found", title: "Not Found", status: 404 };
+
+describe('ProblemDetailsRegistry.resolve', () => {
+    it("should map the built-in wrappers to 500 and 502", () => {
+        const registry = ProblemDetailsRegistry.withDefaults();
+        expect(registry.resolve(new ExceptionalError(new Error())).status).toBe(500);
+        expect(registry.resolve(new PromiseRejection("Some random reason")).status).toBe(502);
+    });
+
+    it("should map subclasses of registered classes", () => {
+        const registry = new ProblemDetailsRegistry().register(NotFoundError, notFound);
+        expect(registry.resolve(new UserNotFoundError("No such user"))).toBe(notFound);
+    });
+
+    it("should prefer the most specific registered class", () => {
+        const userNotFound = { ...notFound, type: "https://example.com/problems/user-not-found" };
+        const registry = new ProblemDetailsRegistry().register(NotFoundError, notFound).register(UserNotFoundError, userNotFound);
+        expect(registry.resolve(new UserNotFoundError("No such user"))).toBe(userNotFound);
+    });
+
+    it("should fall back to a generic internal server error", () => {
+        expect(new ProblemDetailsRegistry().resolve(new TestError("This is a test error"))).toBe(ProblemDetailsRegistry.fallback);
+    });
+});
+
+describe('ProblemDetailsRegistry.toProblemDetails', () => {
+    const registry = ProblemDetailsRegistry.withDefaults().register(NotFoundError, notFound);
+
+    it("should describe the first error of the result", () => {
+        const result = Result.ok(7, "Load user")
+            .withWarning(new TestWarning("Slow lookup"))
+            .okIf(() => false, new UserNotFoundError("No user with id 7"));
+        expect(registry.toProblemDetails(result, "/users/7")).toEqual({
+            ...notFound,
+            detail: "No user with id 7",
+            instance: "/users/7",
+            routineName: "Load user",
+            errors: [
+                { reason: "TestWarning", kind: "warning", message: "Slow lookup", routineName: "Load user" },
+                { reason: "UserNotFoundError", kind: "error", message: "No user with id 7", routineName: "Load user" }
+            ]
+        });
+    });
+
+    it("should list the reasons of contingency children", () => {
+        const result = Result.ok(7, "Load from cache")
+            .failIf(() => true, new NotFoundError("Cache miss"), {
+                func: next => { (next as Result).bind(() => { throw new Error("Server down"); }); },
+                routineName: "Load from server"
+            });
+        const problem = registry.toProblemDetails(result);
+        expect(problem.status).toBe(404);
+        expect("instance" in problem).toBe(false);
+        expect(problem.errors.map(e => [e.reason, e.routineName])).toEqual([
+            ["NotFoundError", "Load from cache"],
+            ["ExceptionalError", "Load from server"]
+        ]);
+    });
+
+    it("should refuse results without errors", () => {
+        expect(() => registry.toProblemDetails(Result.ok(7, "Load user"))).toThrow("Routine 'Load user' has no errors to describe as problem details.");
+    });
+});
+
+describe('sendProblemDetails', () => {
+    let server: Server;
+
+    afterEach(done => { server.close(() => done()); });
+
+    it("should write a problem+json response to a node http server response", async () => {
+        const problem = ProblemDetailsRegistry.withDefaults()
+            .toProblemDetails(Result.try(() => { throw new Error("Boom"); }, "Handle request"));
+        server = createServer((req, res) => sendProblemDetails(res, problem));
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        const { port } = server.address() as AddressInfo;
+
+        const response = await new Promise<{ status?: number, contentType?: string, body: string }>((resolve, reject) => {
+            get({ host: "127.0.0.1", port, path: "/" }, res => {
+                let body = "";
+                res.setEncoding("utf8");
+                res.on("data", chunk => body += chunk);
+                res.on("end", () => resolve({ status: res.statusCode, contentType: res.headers["content-type"], body }));
+            }).on("error", reject);
+        });
+
+        expect(response.status).toBe(500);
+        expect(response.contentType).toBe(PROBLEM_JSON_MEDIA_TYPE);
+        expect(JSON.parse(response.body)).toEqual(problem);
+    });
+});
@@ -0,0 +1,42 @@
+import { PromiseRejection } from "../src/PromiseRejection";
+import { Result } from "../src/Result";
+
+// AggregateError is an ES2021 global; the compiler targets ES2020.
+const AggregateErrorCtor = (globalThis as any).AggregateError as new (errors: unknown[], message: string) => Error;
+
+describe('PromiseRejection.ctor', () => {
+    it("should capture the passed reason", () => {
+        const reason = new Error("Intentionally rejected");
+        const rejection = new PromiseRejection(reason);
+        expect(rejection.reason).toBe(reason);
+    });
+});
+
+describe('PromiseRejection capture', () => {
+    it("should capture name, message, stack and cause of an error", () => {
+        const reason = Object.assign(new TypeError("Intentionally rejected"), { cause: new Error("Root cause") });
+        const rejection = new PromiseRejection(reason);
+        expect(rejection.message).toBe("Intentionally rejected");
+        expect(rejection.name).toBe("TypeError");
+        expect(rejection.stack).toBe(reason.stack);
+        expect(rejection.cause?.message).toBe("Root cause");
+    });
+
+    it("should capture the inner errors of an aggregate error", () => {
+        const rejection = new PromiseRejection(new AggregateErrorCtor([new Error("First")], "Intentionally rejected"));
+        expect(rejection.innerErrors?.map(inner => inner.message)).toEqual(["First"]);
+    });
+
+    it("should render undefined rejections", async () => {
+        const result = await Result.tryAsync(() => Promise.reject(undefined), "should render undefined rejections");
+        expect(result.errors[0]).toBeInstanceOf(PromiseRejection);
+        expect(result.errors[0].message).toBe("undefined");
+    });
+
+    it("should tolerate cyclic rejection reasons", async () => {
+        const reason: { self?: unknown } = {};
+        reason.self = reason;
+        const result = await Result.tryAsync(() => Promise.reject(reason), "should tolerate cyclic rejection reasons");
+        expect(result.errors[0].message).toBe('{"self":"[Circular]"}');
+    });
+});
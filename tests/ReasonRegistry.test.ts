@@ -0,0 +1,212 @@
+import { CancelledError } from '../src/CancelledError';
+import { CircuitOpenError } from '../src/CircuitOpenError';
+import { CompensationFailedError } from '../src/CompensationFailedError';
+import { CompensationSucceeded } from '../src/CompensationSucceeded';
+import { ErrorBudgetExceededError } from '../src/ErrorBudgetExceededError';
+import { ExceptionalError } from '../src/ExceptionalError';
+import { PromiseRejection } from '../src/PromiseRejection';
+import { ReasonRegistry, SerializedReason } from '../src/ReasonRegistry';
+import { RecoveredError } from '../src/RecoveredError';
+import { Result } from '../src/Result';
+import { RetriesExhaustedError } from '../src/RetriesExhaustedError';
+import { RetryAttemptFailed } from '../src/RetryAttemptFailed';
+import { SchemaIssueError } from '../src/SchemaIssueError';
+import { TimeoutError } from '../src/TimeoutError';
+import { UnknownError, UnknownReason, UnknownSuccess, UnknownWarning } from '../src/UnknownReason';
+import { groupByPath } from '../src/Validation';
+import { ValidationError } from '../src/ValidationError';
+import { AReason } from '../src/AReason';
+import { TestError } from './setup/TestError';
+import { TestSuccess } from './setup/TestSuccess';
+import { TestWarning } from './setup/TestWarning';
+
+describe('ReasonRegistry.serialize', () => {
+    it("should capture type, kind, message and metadata", () => {
+        const json = ReasonRegistry.serialize(new TestWarning("Skipped 12 rows").withMetadata("skipped", 12));
+        expect(json).toEqual({ type: "TestWarning", kind: "warning", message: "Skipped 12 rows", metadata: { skipped: 12 } });
+    });
+
+    it("should classify every reason kind", () => {
+        class PlainReason extends AReason { }
+        expect(ReasonRegistry.serialize(new TestError("e")).kind).toBe("error");
+        expect(ReasonRegistry.serialize(new TestSuccess("s")).kind).toBe("success");
+        expect(ReasonRegistry.serialize(new PlainReason("r")).kind).toBe("reason");
+    });
+
+    it("should serialise nested causes", () => {
+        const json = ReasonRegistry.serialize(new TestError("Outer").causedBy(new TestError("Inner")));
+        expect(json.causes?.map(cause => cause.message)).toEqual(["Inner"]);
+    });
+
+    it("should snapshot the wrapped value of exceptional errors", () => {
+        const json = ReasonRegistry.serialize(new ExceptionalError(new TypeError("Intentionally thrown exception")));
+        expect(json.captured?.name).toBe("TypeError");
+        expect(json.captured?.message).toBe("Intentionally thrown exception");
+    });
+
+    it("should keep the original type of placeholders", () => {
+        expect(ReasonRegistry.serialize(new UnknownError("RemoteError", "Boom")).type).toBe("RemoteError");
+    });
+});
+
+describe('ReasonRegistry.revive', () => {
+    it("should revive registered classes with their metadata and causes", () => {
+        const registry = new ReasonRegistry().register(TestError);
+        const json = ReasonRegistry.serialize(new TestError("Outer").withMetadata("status", 404).causedBy(new TestError("Inner")));
+        const revived = registry.revive(json) as TestError;
+        expect(revived).toBeInstanceOf(TestError);
+        expect(revived.message).toBe("Outer");
+        expect(revived.getMetadata("status")).toBe(404);
+        expect(revived.causes[0]).toBeInstanceOf(TestError);
+    });
+
+    it("should revive types registered with a custom reviver", () => {
+        const registry = new ReasonRegistry().register("LegacyError", json => new TestError(`legacy: ${json.message}`));
+        const revived = registry.revive({ type: "LegacyError", kind: "error", message: "Boom", metadata: {} });
+        expect(revived).toBeInstanceOf(TestError);
+        expect(revived.message).toBe("legacy: Boom");
+    });
+
+    it("should revive the built-in wrappers with their captured values", () => {
+        const registry = ReasonRegistry.withDefaults();
+        const original = new TypeError("Intentionally thrown exception");
+        const exceptional = registry.revive(ReasonRegistry.serialize(new ExceptionalError(original))) as ExceptionalError;
+        const rejection = registry.revive(ReasonRegistry.serialize(new PromiseRejection("Some random reason"))) as PromiseRejection;
+        expect(exceptional).toBeInstanceOf(ExceptionalError);
+        expect(exceptional.name).toBe("TypeError");
+        expect(exceptional.stack).toBe(original.stack);
+        expect(rejection).toBeInstanceOf(PromiseRejection);
+        expect(rejection.reason).toBe("Some random reason");
+    });
+
+    it("should revive the cause chain and inner errors of captured values", () => {
+        const original = Object.assign(new Error("Intentionally thrown exception"), {
+            cause: new RangeError("Root cause"),
+            errors: [new Error("First"), "Second"]
+        });
+        const revived = ReasonRegistry.withDefaults().revive(ReasonRegistry.serialize(new ExceptionalError(original))) as ExceptionalError;
+        expect(revived.cause?.name).toBe("RangeError");
+        expect(revived.innerErrors?.map(inner => inner.message)).toEqual(["First", "Second"]);
+    });
+
+    it("should revive the built-in wrappers without a captured snapshot", () => {
+        const registry = ReasonRegistry.withDefaults();
+        const exceptional = registry.revive({ type: "ExceptionalError", kind: "error", message: "Boom", metadata: {} }) as ExceptionalError;
+        const rejection = registry.revive({ type: "PromiseRejection", kind: "error", message: "Boom", metadata: {} }) as PromiseRejection;
+        expect(exceptional.exception).toBe("Boom");
+        expect(rejection.reason).toBe("Boom");
+    });
+
+    it("should revive unknown types into placeholders of the same kind", () => {
+        const registry = new ReasonRegistry();
+        const revive = (kind: SerializedReason["kind"]) => registry.revive({ type: "RemoteReason", kind, message: "Boom", metadata: {} });
+        expect(revive("error")).toBeInstanceOf(UnknownError);
+        expect(revive("warning")).toBeInstanceOf(UnknownWarning);
+        expect(revive("success")).toBeInstanceOf(UnknownSuccess);
+        expect(revive("reason")).toBeInstanceOf(UnknownReason);
+        expect((revive("warning") as UnknownWarning).originalType).toBe("RemoteReason");
+        expect((revive("success") as UnknownSuccess).originalType).toBe("RemoteReason");
+        expect((revive("reason") as UnknownReason).originalType).toBe("RemoteReason");
+    });
+
+    it("should tolerate missing metadata", () => {
+        const revived = new ReasonRegistry().revive({ type: "RemoteError", kind: "error", message: "Boom" } as SerializedReason);
+        expect(revived.metadata).toEqual({});
+    });
+});
+
+describe('ReasonRegistry.withDefaults', () => {
+    /** Sends `reason` through JSON and back, as a result crossing a process boundary would. */
+    function roundTrip<T extends AReason>(reason: T): T {
+        return ReasonRegistry.withDefaults().revive(JSON.parse(JSON.stringify(ReasonRegistry.serialize(reason)))) as T;
+    }
+
+    it("should round-trip validation errors", () => {
+        const revived = roundTrip(new ValidationError("address.zip", "required", null).withMetadata("form", "sign-up"));
+        expect(revived).toBeInstanceOf(ValidationError);
+        expect([revived.path, revived.code, revived.value, revived.message]).toEqual(["address.zip", "required", null, "address.zip failed validation rule 'required'"]);
+        expect(revived.getMetadata("form")).toBe("sign-up");
+    });
+
+    it("should round-trip schema issues", () => {
+        const revived = roundTrip(new SchemaIssueError(["items", 0, "sku"], "Expected string", 42));
+        expect(revived).toBeInstanceOf(SchemaIssueError);
+        expect([revived.segments, revived.path, revived.code, revived.value, revived.message]).toEqual([["items", 0, "sku"], "items.0.sku", "schema", 42, "Expected string"]);
+    });
+
+    it("should round-trip timeouts", () => {
+        const revived = roundTrip(new TimeoutError(1000));
+        expect(revived).toBeInstanceOf(TimeoutError);
+        expect([revived.timeoutMs, revived.message]).toEqual([1000, "Timed out after 1000 ms"]);
+    });
+
+    it("should round-trip cancellations with their abort reason", () => {
+        const revived = roundTrip(new CancelledError("Client disconnected"));
+        const timedOut = roundTrip(new CancelledError(Object.assign(new Error("The operation timed out"), { name: "TimeoutError" })));
+        expect(revived).toBeInstanceOf(CancelledError);
+        expect([revived.reason, revived.message]).toEqual(["Client disconnected", "Cancelled: Client disconnected"]);
+        expect((timedOut.reason as Error).name).toBe("TimeoutError");
+        expect(timedOut.message).toBe("Cancelled: The operation timed out");
+    });
+
+    it("should round-trip exhausted retries with a single cause", () => {
+        const revived = roundTrip(new RetriesExhaustedError(3, new PromiseRejection("Down")));
+        expect(revived).toBeInstanceOf(RetriesExhaustedError);
+        expect([revived.attempts, revived.message]).toEqual([3, "Gave up after 3 attempts: Down"]);
+        expect(revived.causes.length).toBe(1);
+        expect((revived.causes[0] as PromiseRejection).reason).toBe("Down");
+    });
+
+    it("should round-trip open circuits", () => {
+        const revived = roundTrip(new CircuitOpenError("payments", 600));
+        expect(revived).toBeInstanceOf(CircuitOpenError);
+        expect([revived.circuitName, revived.retryAfterMs, revived.message]).toEqual(["payments", 600, "Circuit 'payments' is open"]);
+    });
+
+    it("should round-trip compensation outcomes", () => {
+        const failed = roundTrip(new CompensationFailedError("reserve stock", new ExceptionalError(new Error("Warehouse down"))));
+        const succeeded = roundTrip(new CompensationSucceeded(undefined));
+        expect(failed).toBeInstanceOf(CompensationFailedError);
+        expect([failed.stepName, failed.message]).toEqual(["reserve stock", "Compensation of step 'reserve stock' failed: Warehouse down"]);
+        expect(failed.causes.map(c => c.constructor)).toEqual([ExceptionalError]);
+        expect(succeeded).toBeInstanceOf(CompensationSucceeded);
+        expect([succeeded.stepName, succeeded.message]).toEqual([undefined, "Compensated an unnamed step"]);
+    });
+
+    it("should round-trip failed attempts with their error", () => {
+        const revived = roundTrip(new RetryAttemptFailed(2, new TimeoutError(100)));
+        expect(revived).toBeInstanceOf(RetryAttemptFailed);
+        expect([revived.attempt, revived.message]).toEqual([2, "Attempt 2 failed: Timed out after 100 ms"]);
+        expect(revived.error).toBeInstanceOf(TimeoutError);
+    });
+
+    it("should round-trip recovered errors with their error", () => {
+        const revived = roundTrip(new RecoveredError(new ValidationError("email", "format", "nope")));
+        expect(revived).toBeInstanceOf(RecoveredError);
+        expect(revived.error).toBeInstanceOf(ValidationError);
+        expect((revived.error as ValidationError).path).toBe("email");
+    });
+
+    it("should round-trip exceeded error budgets", () => {
+        const revived = roundTrip(new ErrorBudgetExceededError(3, 10));
+        expect(revived).toBeInstanceOf(ErrorBudgetExceededError);
+        expect([revived.failed, revived.processed, revived.message]).toEqual([3, 10, "Error budget exceeded: 3 of 10 items failed"]);
+    });
+
+    it("should fall back to placeholders for wrapped errors missing from the wire format", () => {
+        const revived = ReasonRegistry.withDefaults().revive({ type: "RecoveredError", kind: "reason", message: "Boom", metadata: {} }) as RecoveredError;
+        expect(revived.error).toBeInstanceOf(UnknownError);
+        expect(revived.message).toBe("Boom");
+    });
+
+    it("should keep validation errors groupable by path after a result round trip", () => {
+        const result = Result.ok({ email: "nope", zip: "" }, "should keep validation errors groupable")
+            .validate([
+                { path: "email", code: "format", check: (email: string) => email.includes("@") },
+                { path: "zip", code: "required", check: (zip: string) => zip.length > 0 }
+            ]);
+        const revived = Result.fromJSON(JSON.stringify(result));
+        expect(Object.keys(groupByPath(revived.errors))).toEqual(["email", "zip"]);
+        expect(groupByPath(revived.errors).zip[0].code).toBe("required");
+    });
+});
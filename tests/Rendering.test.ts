@@ -0,0 +1,88 @@
+import { inspect } from 'util';
+import { CompensationFailedError } from '../src/CompensationFailedError';
+import { ExceptionalError } from '../src/ExceptionalError';
+import { renderTree } from '../src/Rendering';
+import { Result } from '../src/Result';
+import { TestError } from './setup/TestError';
+import { TestSuccess } from './setup/TestSuccess';
+import { TestWarning } from './setup/TestWarning';
+
+/** A failed result with a warning, a recovered error and two levels of contingencies. */
+function profile() {
+    return Result.ok({ id: 7 }, "Load profile")
+        .withWarning(new TestWarning("Stale cache"))
+        .okIf(() => false, new TestError("Profile missing"))
+        .withContingency({
+            func: next => next.bind(() => { throw new Error("Replica down"); })
+                .withContingency({ func: backup => backup.withSuccess(new TestSuccess("Served from backup")), routineName: "Load from backup" }),
+            routineName: "Load from replica"
+        });
+}
+
+describe('renderTree', () => {
+    it("should draw the routine, its state, its reasons and its contingencies as a text tree", () => {
+        expect(renderTree(profile())).toBe([
+            "Load profile (failed)",
+            "├─ state: {\"id\":7}",
+            "├─ ! TestWarning: Stale cache",
+            "├─ ✗ TestError: Profile missing",
+            "└─ ↳ Load from replica (failed)",
+            "   ├─ ✗ ExceptionalError: Replica down",
+            "   └─ ↳ Load from backup (successful)",
+            "      └─ ✓ TestSuccess: Served from backup"
+        ].join("\n"));
+    });
+
+    it("should render a markdown list", () => {
+        expect(renderTree(Result.fail(new TestError("Profile missing"), "Load profile"), { format: 'markdown' })).toBe([
+            "- **Load profile** (failed)",
+            "  - ✗ `TestError`: Profile missing"
+        ].join("\n"));
+    });
+
+    it("should only count contingencies beyond `depth`", () => {
+        expect(renderTree(profile(), { depth: 0 }).split("\n").pop()).toBe("└─ … 1 more contingency");
+        expect(renderTree(profile(), { depth: 1 }).split("\n").pop()).toBe("   └─ … 1 more contingency");
+    });
+
+    it("should truncate large states", () => {
+        expect(renderTree(Result.ok("x".repeat(20), "Load profile"), { maxStateLength: 5 })).toBe("Load profile (successful)\n└─ state: xxxx…");
+    });
+
+    it("should render causes, recovered errors and cancellations", () => {
+        const controller = new AbortController();
+        const result = Result.ok(1, "Place order")
+            .withSignal(controller.signal)
+            .failIf(() => true, new CompensationFailedError("insert row", new ExceptionalError(new Error("Row locked"))))
+            .recover(() => true, () => 2);
+        controller.abort("Client disconnected");
+        result.bind(n => n, "ship");
+        expect(renderTree(result)).toBe([
+            "Place order (cancelled)",
+            "├─ state: 2",
+            "├─ ↺ RecoveredError: Compensation of step 'insert row' failed: Row locked",
+            "└─ ✗ CancelledError: Cancelled: Client disconnected"
+        ].join("\n"));
+        expect(renderTree(Result.fail(new TestError("Outer").causedBy(new TestError("Inner")), "Load profile"))).toBe([
+            "Load profile (failed)",
+            "└─ ✗ TestError: Outer",
+            "   └─ caused by ✗ TestError: Inner"
+        ].join("\n"));
+    });
+
+    it("should colour text trees on request", () => {
+        expect(renderTree(Result.fail(new TestError("Profile missing"), "Load profile"), { colors: true })).toBe(
+            "Load profile (\u001b[31mfailed\u001b[39m)\n└─ \u001b[31m✗ TestError: Profile missing\u001b[39m");
+    });
+});
+
+describe('Result rendering', () => {
+    it("should render the tree from toString and util.inspect", () => {
+        const result = profile();
+        expect(String(result)).toBe(renderTree(result));
+        expect(inspect(result)).toBe(renderTree(result, { depth: 2 }));
+        expect(inspect(result, { depth: 0 })).toBe(renderTree(result, { depth: 0 }));
+        expect(inspect(result, { depth: null, colors: true })).toBe(renderTree(result, { colors: true }));
+        expect(inspect({ result }, { depth: 0 })).toBe("{ result: [Result] }");
+    });
+});
@@ -1,7 +1,14 @@
 import { ExceptionalError } from '../src/ExceptionalError';
 import { PromiseRejection } from '../src/PromiseRejection';
-import { Result } from '../src/Result';
+import { Result, SerializedResult } from '../src/Result';
+import { ReasonRegistry } from '../src/ReasonRegistry';
+import { UnknownError } from '../src/UnknownReason';
+import { RecoveredError } from '../src/RecoveredError';
+import { AError } from '../src/AError';
+import { FailurePolicies } from '../src/FailurePolicy';
 import { TestError } from './setup/TestError';
+import { TestSuccess } from './setup/TestSuccess';
+import { TestWarning } from './setup/TestWarning';
 
 describe("Result.try", () => {
 
@@ -354,6 +361,21 @@ describe('Result.failIf', () => {
         expect(b).toBe(false);
         expect(result.child).toBeUndefined();
     });
+
+    it("should record exceptions thrown by the contingent routine on the child", () => {
+        const result = Result.try(() => 42, "Primary route")
+            .failIf(() => true, new TestError("This is a test error"), { func: () => { throw new Error("Intentionally thrown exception"); }, routineName: "Contingent route" });
+        expect(result.errors.length).toBe(1);
+        expect((result.child as Result).errors[0]).toBeInstanceOf(ExceptionalError);
+    });
+
+    it("should keep every contingency child", () => {
+        const result = Result.try(() => 42, "Primary route")
+            .failIf(() => true, new TestError("Cache miss"), { func: next => { next.okIf(() => false, new TestError("Server down")); }, routineName: "First route" })
+            .withContingency({ func: next => { }, routineName: "Second route" });
+        expect(result.children.map(c => c.routineName)).toEqual(["First route", "Second route"]);
+        expect(result.child?.routineName).toBe("Second route");
+    });
 });
 
 describe('Result.failIfAsync', () => {
@@ -437,6 +459,25 @@ describe('Result.failIfAsync', () => {
         expect(b).toBe(false);
         expect(result.child).toBeUndefined();
     });
+
+    it("should await async contingent routines", async () => {
+        const result = await Result.try(() => 42, "Primary route")
+            .failIfAsync(async () => true, new TestError("Cache miss"), { func: next => next.bindAsync(async () => 43), routineName: "Contingent route" });
+        expect((result.child as Result).currentState).toBe(43);
+    });
+
+    it("should record rejections of the contingent routine on the child", async () => {
+        const result = await Result.try(() => 42, "Primary route")
+            .failIfAsync(async () => true, new TestError("Cache miss"), { func: () => Promise.reject("Server down"), routineName: "Contingent route" });
+        expect(result.errors.length).toBe(1);
+        expect((result.child as Result).errors[0]).toBeInstanceOf(PromiseRejection);
+    });
+
+    it("should record exceptions thrown by the contingent routine on the child", async () => {
+        const result = await Result.try(() => 42, "Primary route")
+            .failIfAsync(async () => true, new TestError("Cache miss"), { func: () => { throw new Error("Intentionally thrown exception"); }, routineName: "Contingent route" });
+        expect((result.child as Result).errors[0]).toBeInstanceOf(ExceptionalError);
+    });
 });
 
 describe('Reason.errors', () => {
@@ -446,4 +487,950 @@ describe('Reason.errors', () => {
         expect(result.isSuccess).toBe(false);
         expect(result.errors.length).toBe(1);
     });
-});
\ No newline at end of file
+});
+
+describe('Result.ok', () => {
+    it("should create a successful result carrying the passed value", () => {
+        const result = Result.ok(42, "should create a successful result carrying the passed value");
+        expect(result.isSuccess).toBe(true);
+        expect(result.routineName).toBe("should create a successful result carrying the passed value");
+        expect(result.currentState).toBe(42);
+        expect(result.reasons.length).toBe(0);
+    });
+
+    it("should be chainable like any other result", () => {
+        const result = Result.ok(42, "should be chainable like any other result").bind(num => num + 1);
+        expect(result.isSuccess).toBe(true);
+        expect(result.currentState).toBe(43);
+    });
+});
+
+describe('Result.fail', () => {
+    it("should create a failed result carrying the passed error", () => {
+        const error = new TestError("This is a test error");
+        const result = Result.fail(error, "should create a failed result carrying the passed error");
+        expect(result.isFailed).toBe(true);
+        expect(result.errors).toEqual([error]);
+    });
+
+    it("should create a failed result carrying all passed errors", () => {
+        const errors = [new TestError("First"), new TestError("Second")];
+        const result = Result.fail(errors, "should create a failed result carrying all passed errors");
+        expect(result.isFailed).toBe(true);
+        expect(result.errors).toEqual(errors);
+    });
+
+    it("should not execute subsequent steps", () => {
+        let pi = 3.14;
+        const result = Result.fail<number>(new TestError("This is a test error"), "should not execute subsequent steps").bind(() => { pi++; });
+        expect(result.isFailed).toBe(true);
+        expect(pi).toBe(3.14);
+    });
+});
+
+describe('Result.merge', () => {
+    it("should combine the states of successful results into a tuple", () => {
+        const result = Result.merge(Result.ok(42, "number"), Result.ok("foo", "string"));
+        expect(result.isSuccess).toBe(true);
+        expect(result.currentState).toEqual([42, "foo"]);
+        const [num, str]: [number, string] = result.currentState;
+        expect(num).toBe(42);
+        expect(str).toBe("foo");
+    });
+
+    it("should use undefined for results that carry no state", () => {
+        const result = Result.merge(Result.ok(42, "number"), Result.fail([], "stateless"));
+        expect(result.isSuccess).toBe(true);
+        expect(result.currentState).toEqual([42, undefined]);
+    });
+
+    it("should collect the reasons of every result", () => {
+        const first = new TestError("First");
+        const second = new TestError("Second");
+        const result = Result.merge(Result.fail(first, "first"), Result.ok(42, "number"), Result.fail(second, "second"));
+        expect(result.isFailed).toBe(true);
+        expect(result.errors).toEqual([first, second]);
+    });
+
+    it("should not carry state when any result failed", () => {
+        const result = Result.merge(Result.ok(42, "number"), Result.fail(new TestError("This is a test error"), "failed"));
+        expect(result.isFailed).toBe(true);
+        expect(() => result.currentState).toThrow();
+    });
+
+    it("should name the merged routine after its inputs", () => {
+        const result = Result.merge(Result.ok(42, "first"), Result.ok(43, "second"));
+        expect(result.routineName).toBe("first + second");
+    });
+});
+
+describe('Result.findError', () => {
+    class DomainError extends TestError { }
+
+    it("should find a recorded error by class", () => {
+        const error = new DomainError("This is a test error");
+        const result = Result.fail(error, "should find a recorded error by class");
+        expect(result.findError(DomainError)).toBe(error);
+    });
+
+    it("should find a recorded error by predicate", () => {
+        const error = new TestError("This is a test error").withMetadata("status", 404);
+        const result = Result.fail([new TestError("Other"), error], "should find a recorded error by predicate");
+        expect(result.findError(e => e.getMetadata("status") === 404)).toBe(error);
+    });
+
+    it("should search nested causes", () => {
+        const result = Result.try(() => 42, "should search nested causes")
+            .bind(() => { throw new Error("Intentionally thrown exception"); });
+        const wrapped = Result.fail(new DomainError("Could not load").causedBy(result.errors[0]), "wrapped");
+        expect(wrapped.findError(ExceptionalError)).toBe(result.errors[0]);
+    });
+
+    it("should return undefined when nothing matches", () => {
+        const result = Result.fail(new TestError("This is a test error").causedBy(new TestError("Root cause")), "should return undefined when nothing matches");
+        expect(result.findError(DomainError)).toBeUndefined();
+    });
+});
+
+describe('Result.hasError', () => {
+    it("should report whether any error matches", () => {
+        const result = Result.fail(new TestError("This is a test error").causedBy("Some random reason"), "should report whether any error matches");
+        expect(result.hasError(TestError)).toBe(true);
+        expect(result.hasError(ExceptionalError)).toBe(true);
+        expect(result.hasError(PromiseRejection)).toBe(false);
+        expect(result.hasError(e => e.message === "This is a test error")).toBe(true);
+    });
+
+    it("should report false for successful results", () => {
+        expect(Result.ok(42, "should report false for successful results").hasError(TestError)).toBe(false);
+    });
+});
+
+describe('Result.withSuccess', () => {
+    it("should record a success without affecting the outcome", () => {
+        const success = new TestSuccess("Imported 42 rows");
+        const result = Result.ok(42, "should record a success without affecting the outcome").withSuccess(success);
+        expect(result.isSuccess).toBe(true);
+        expect(result.successes).toEqual([success]);
+        expect(result.reasons).toEqual([success]);
+    });
+
+    it("should inject most recent state when the delegate requires it", () => {
+        const result = Result.ok(42, "should inject most recent state when the delegate requires it")
+            .withSuccess(rows => new TestSuccess(`Imported ${rows} rows`));
+        expect(result.successes[0].message).toBe("Imported 42 rows");
+    });
+
+    it("should record nothing when the delegate returns undefined", () => {
+        const result = Result.ok(42, "should record nothing when the delegate returns undefined").withSuccess(() => undefined);
+        expect(result.reasons.length).toBe(0);
+    });
+
+    it("should not record a success if result is already in a failed state", () => {
+        const result = Result.fail(new TestError("This is a test error"), "should not record a success if result is already in a failed state")
+            .withSuccess(new TestSuccess("Imported 42 rows"));
+        expect(result.successes.length).toBe(0);
+    });
+
+    it("should capture exceptional error on exception in the delegate", () => {
+        const result = Result.ok(42, "should capture exceptional error on exception in the delegate")
+            .withSuccess(() => { throw new Error("Intentionally thrown exception"); });
+        expect(result.isSuccess).toBe(false);
+        expect(result.errors.filter(err => err instanceof ExceptionalError).length).toBe(1);
+    });
+});
+
+describe('Result.withWarning', () => {
+    it("should record a warning without affecting the outcome by default", () => {
+        const warning = new TestWarning("Skipped 12 rows");
+        const result = Result.ok(42, "should record a warning without affecting the outcome by default").withWarning(warning);
+        expect(result.isSuccess).toBe(true);
+        expect(result.warnings).toEqual([warning]);
+        expect(result.errors.length).toBe(0);
+    });
+
+    it("should inject most recent state when the delegate requires it", () => {
+        const result = Result.ok(12, "should inject most recent state when the delegate requires it")
+            .withWarning(skipped => skipped > 0 ? new TestWarning(`Skipped ${skipped} rows`) : undefined);
+        expect(result.warnings[0].message).toBe("Skipped 12 rows");
+    });
+
+    it("should not record a warning if result is already in a failed state", () => {
+        const result = Result.fail(new TestError("This is a test error"), "should not record a warning if result is already in a failed state")
+            .withWarning(new TestWarning("Skipped 12 rows"));
+        expect(result.warnings.length).toBe(0);
+    });
+});
+
+describe('Result.withFailurePolicy', () => {
+    it("should fail on warnings when treating warnings as errors", () => {
+        const result = Result.ok(42, "should fail on warnings when treating warnings as errors")
+            .withFailurePolicy(FailurePolicies.warningsAsErrors)
+            .withWarning(new TestWarning("Skipped 12 rows"));
+        expect(result.isFailed).toBe(true);
+        expect(result.errors.length).toBe(0);
+    });
+
+    it("should fail once more than the tolerated number of warnings accumulate", () => {
+        const result = Result.ok(42, "should fail once more than the tolerated number of warnings accumulate")
+            .withFailurePolicy(FailurePolicies.maxWarnings(1))
+            .withWarning(new TestWarning("Skipped row 1"));
+        expect(result.isSuccess).toBe(true);
+        result.withWarning(new TestWarning("Skipped row 2"));
+        expect(result.isFailed).toBe(true);
+    });
+
+    it("should still fail on errors when tolerating warnings", () => {
+        const result = Result.ok(42, "should still fail on errors when tolerating warnings")
+            .withFailurePolicy(FailurePolicies.maxWarnings(10))
+            .okIf(() => false, new TestError("This is a test error"));
+        expect(result.isFailed).toBe(true);
+    });
+
+    it("should skip subsequent steps once the policy fails the result", () => {
+        let pi = 3.14;
+        const result = Result.ok(42, "should skip subsequent steps once the policy fails the result")
+            .withFailurePolicy(FailurePolicies.warningsAsErrors)
+            .withWarning(new TestWarning("Skipped 12 rows"))
+            .bind(() => { pi++; });
+        expect(result.isFailed).toBe(true);
+        expect(pi).toBe(3.14);
+    });
+
+    it("should be inherited by contingency children", () => {
+        const result = Result.ok(42, "Primary route")
+            .withFailurePolicy(FailurePolicies.warningsAsErrors)
+            .failIf(() => true, new TestError("This is a test error"), {
+                func: next => { (next as Result).withWarning(new TestWarning("Skipped 12 rows")); },
+                routineName: "Contingent route"
+            });
+        expect(result.child?.isFailed).toBe(true);
+    });
+});
+
+describe('Result.toJSON', () => {
+    it("should produce a versioned wire format", () => {
+        const json = Result.ok(42, "should produce a versioned wire format").withWarning(new TestWarning("Skipped 12 rows")).toJSON();
+        expect(json).toEqual({
+            version: 2,
+            routineName: "should produce a versioned wire format",
+            hasState: true,
+            state: 42,
+            reasons: [{ type: "TestWarning", kind: "warning", message: "Skipped 12 rows", metadata: {} }],
+            failed: false
+        });
+    });
+
+    it("should omit state when none was cached", () => {
+        const json = Result.fail(new TestError("This is a test error"), "should omit state when none was cached").toJSON();
+        expect(json.hasState).toBe(false);
+        expect("state" in json).toBe(false);
+    });
+
+    it("should include the contingency tree", () => {
+        const json = Result.ok(42, "Primary route")
+            .failIf(() => true, new TestError("This is a test error"), { func: next => { }, routineName: "Contingent route" })
+            .toJSON();
+        expect(json.children?.map(child => child.routineName)).toEqual(["Contingent route"]);
+    });
+
+    it("should be used by JSON.stringify", () => {
+        const result = Result.ok(42, "should be used by JSON.stringify");
+        expect(JSON.parse(JSON.stringify(result))).toEqual(result.toJSON());
+    });
+});
+
+describe('Result.fromJSON', () => {
+    it("should round-trip reasons, state and routine name", () => {
+        const original = Result.ok({ id: 7 }, "should round-trip reasons, state and routine name")
+            .okIf(() => false, new TestError("This is a test error").withMetadata("status", 404));
+        const revived = Result.fromJSON(JSON.stringify(original), ReasonRegistry.withDefaults().register(TestError));
+        expect(revived.routineName).toBe(original.routineName);
+        expect(revived.isFailed).toBe(true);
+        expect(revived.currentState).toEqual({ id: 7 });
+        expect(revived.errors[0]).toBeInstanceOf(TestError);
+        expect(revived.errors[0].getMetadata("status")).toBe(404);
+    });
+
+    it("should keep the outcome decided by the failure policy", () => {
+        const strict = Result.ok(1, "Strict").withFailurePolicy(FailurePolicies.warningsAsErrors).withWarning(new TestWarning("Stale"));
+        const lenient = Result.fail(new TestError("Ignored"), "Lenient").withFailurePolicy(() => false);
+        const cancelled = Result.ok(1, "Cancelled").withSignal(AbortSignal.abort("Gone")).bind(n => n);
+        const [revivedStrict, revivedLenient, revivedCancelled] = [strict, lenient, cancelled].map(result => Result.fromJSON(JSON.stringify(result)));
+        expect([strict.isFailed, revivedStrict.isFailed]).toEqual([true, true]);
+        expect([lenient.isFailed, revivedLenient.isFailed]).toEqual([false, false]);
+        expect(revivedLenient.okIf(() => false, new TestError("Counted")).isFailed).toBe(true);
+        expect(revivedCancelled.isCancelled).toBe(true);
+        expect(revivedStrict.recover(() => true, () => 2).isFailed).toBe(true);
+    });
+
+    it("should round-trip undefined states", () => {
+        const revived = Result.fromJSON(JSON.stringify(Result.try(() => { }, "should round-trip undefined states")));
+        expect(revived.currentState).toBeUndefined();
+    });
+
+    it("should revive built-in wrappers with the default registry", () => {
+        const original = Result.try(() => { throw new RangeError("Intentionally thrown exception"); }, "should revive built-in wrappers with the default registry");
+        const revived = Result.fromJSON(original.toJSON());
+        expect(revived.errors[0]).toBeInstanceOf(ExceptionalError);
+        expect((revived.errors[0] as ExceptionalError).name).toBe("RangeError");
+    });
+
+    it("should revive unknown reason types into placeholders", () => {
+        const revived = Result.fromJSON(Result.fail(new TestError("This is a test error"), "should revive unknown reason types into placeholders").toJSON());
+        expect(revived.isFailed).toBe(true);
+        expect(revived.errors[0]).toBeInstanceOf(UnknownError);
+    });
+
+    it("should revive the contingency tree with parent links", () => {
+        const original = Result.ok(42, "Primary route")
+            .failIf(() => true, new TestError("This is a test error"), { func: next => { (next as Result).bind(() => 43); }, routineName: "Contingent route" });
+        const revived = Result.fromJSON(original.toJSON());
+        expect(revived.child?.routineName).toBe("Contingent route");
+        expect(revived.child?.parent).toBe(revived);
+        expect((revived.child as Result).currentState).toBe(43);
+    });
+
+    it("should revive the single contingency child of version 1", () => {
+        const child: SerializedResult = { version: 1, routineName: "Contingent route", hasState: true, state: 43, reasons: [] };
+        const revived = Result.fromJSON({ version: 1, routineName: "Primary route", hasState: false, reasons: [], child });
+        expect(revived.children.length).toBe(1);
+        expect((revived.child as Result).currentState).toBe(43);
+    });
+
+    it("should reject unsupported wire format versions", () => {
+        const json = { ...Result.ok(42, "should reject unsupported wire format versions").toJSON(), version: 3 };
+        expect(() => Result.fromJSON(json as unknown as SerializedResult)).toThrow("Unsupported result wire format version '3'. Expected version 1 or 2.");
+    });
+});
+
+describe('Result.steps', () => {
+    afterEach(() => jest.useRealTimers());
+
+    it("should journal every step with its name, kind and outcome", () => {
+        const result = Result.ok(42, "should journal every step with its name, kind and outcome")
+            .bind(n => n + 1, "increment")
+            .okIf(n => n > 0, new TestError("This is a test error"), { name: "positive" })
+            .failIf(n => n > 40, new TestError("Too big"), undefined, "not too big")
+            .bind(n => n + 1, "never runs");
+        expect(result.steps.map(s => [s.name, s.kind, s.outcome])).toEqual([
+            ["increment", "bind", "ran"],
+            ["positive", "okIf", "ran"],
+            ["not too big", "failIf", "failed"],
+            ["never runs", "bind", "skipped"]
+        ]);
+    });
+
+    it("should record the reasons each step added", () => {
+        const error = new TestError("This is a test error");
+        const result = Result.ok(42, "should record the reasons each step added")
+            .bind(n => n + 1)
+            .okIf(() => false, error);
+        expect(result.steps[0].reasons).toEqual([]);
+        expect(result.steps[1].reasons).toEqual([error]);
+    });
+
+    it("should record exceptions as failed steps", () => {
+        const result = Result.ok(42, "should record exceptions as failed steps").bind(() => { throw new Error("Intentionally thrown exception"); });
+        expect(result.steps[0].outcome).toBe("failed");
+        expect(result.steps[0].reasons[0]).toBeInstanceOf(ExceptionalError);
+    });
+
+    it("should leave the name undefined when none is given", () => {
+        const result = Result.ok(42, "should leave the name undefined when none is given").bind(n => n);
+        expect(result.steps[0].name).toBeUndefined();
+    });
+
+    it("should record start and end timestamps", async () => {
+        jest.useFakeTimers({ now: 1_700_000_000_000 });
+        const pending = Result.ok(42, "should record start and end timestamps")
+            .bindAsync(n => new Promise<number>(resolve => setTimeout(() => resolve(n), 20)), "slow");
+        await jest.advanceTimersByTimeAsync(20);
+        const [step] = (await pending).steps;
+        expect(step.startedAt).toBe(1_700_000_000_000);
+        expect(step.endedAt).toBe(1_700_000_000_020);
+    });
+
+    it("should journal async steps identically", async () => {
+        const result = await Result.ok(42, "should journal async steps identically")
+            .bindAsync(async n => n + 1, "increment")
+            .okIfAsync(async () => true, new TestError("This is a test error"), "guard")
+            .failIfAsync(async () => true, new TestError("This is a test error"), undefined, { name: "trigger" })
+            .bindAsync(async n => n + 1, "never runs");
+        expect(result.steps.map(s => [s.name, s.kind, s.outcome])).toEqual([
+            ["increment", "bindAsync", "ran"],
+            ["guard", "okIfAsync", "ran"],
+            ["trigger", "failIfAsync", "failed"],
+            ["never runs", "bindAsync", "skipped"]
+        ]);
+    });
+
+    it("should include steps executed in contingency children after the step that spawned them", () => {
+        const result = Result.ok(42, "Primary route")
+            .failIf(() => true, new TestError("Cache miss"), {
+                func: next => { (next as Result).bind(() => 43, "fetch"); },
+                routineName: "Contingent route"
+            }, "check cache")
+            .bind(n => n, "after");
+        expect(result.steps.map(s => [s.name, s.routineName, s.outcome])).toEqual([
+            ["check cache", "Primary route", "recovered"],
+            ["fetch", "Contingent route", "ran"],
+            ["after", "Primary route", "skipped"]
+        ]);
+    });
+
+    it("should journal contingencies as recovered only when their routine succeeded", async () => {
+        const result = Result.fail<number>(new TestError("Cache miss"), "Primary route")
+            .withContingency({ func: next => { next.bind(() => { throw new Error("Server down"); }); }, routineName: "Server route" }, "server")
+            .withContingency({ func: next => { next.bind(() => 42); }, routineName: "Replica route" }, "replica")
+            .withContingency({ func: () => { }, routineName: "Never route" }, "never");
+        const awaited = await Result.fail<number>(new TestError("Cache miss"), "Primary route")
+            .withContingencyAsync({ func: next => next.bindAsync(async () => 42), routineName: "Server route" }, "server");
+        expect(result.steps.filter(s => s.routineName === "Primary route").map(s => [s.name, s.outcome])).toEqual([
+            ["server", "failed"],
+            ["replica", "recovered"],
+            ["never", "skipped"]
+        ]);
+        expect(awaited.steps.map(s => [s.name, s.outcome])).toEqual([["server", "recovered"], [undefined, "ran"]]);
+    });
+});
+
+describe('Result.recover', () => {
+    class NotFoundError extends TestError { }
+
+    it("should resume with the fallback state when every error matches", () => {
+        const error = new NotFoundError("No such user");
+        const result = Result.fail<string>(error, "should resume with the fallback state when every error matches")
+            .recover(NotFoundError, e => `guest (${e.message})`)
+            .bind(name => name.toUpperCase());
+        expect(result.isSuccess).toBe(true);
+        expect(result.currentState).toBe("GUEST (NO SUCH USER)");
+    });
+
+    it("should keep recovered errors visible in history", () => {
+        const error = new NotFoundError("No such user");
+        const result = Result.fail<string>(error, "should keep recovered errors visible in history").recover(NotFoundError, () => "guest");
+        expect(result.errors.length).toBe(0);
+        expect(result.reasons.length).toBe(1);
+        expect(result.reasons[0]).toBeInstanceOf(RecoveredError);
+        expect((result.reasons[0] as RecoveredError).error).toBe(error);
+    });
+
+    it("should match errors by predicate", () => {
+        const result = Result.fail<string>(new TestError("Not found"), "should match errors by predicate")
+            .recover(e => e.message === "Not found", () => "guest");
+        expect(result.isSuccess).toBe(true);
+    });
+
+    it("should not recover when some error does not match", () => {
+        const result = Result.fail<string>([new NotFoundError("No such user"), new TestError("Other")], "should not recover when some error does not match")
+            .recover(NotFoundError, () => "guest");
+        expect(result.isFailed).toBe(true);
+        expect(result.errors.length).toBe(2);
+    });
+
+    it("should not affect successful results", () => {
+        const result = Result.ok("alice", "should not affect successful results").recover(AError, () => "guest");
+        expect(result.currentState).toBe("alice");
+    });
+
+    it("should capture exceptional error on exception in the fallback and keep the original errors", () => {
+        const result = Result.fail<string>(new NotFoundError("No such user"), "should capture exceptional error on exception in the fallback")
+            .recover(NotFoundError, () => { throw new Error("Intentionally thrown exception"); });
+        expect(result.isFailed).toBe(true);
+        expect(result.errors.map(e => e.constructor)).toEqual([NotFoundError, ExceptionalError]);
+    });
+});
+
+describe('Result.orElse', () => {
+    it("should adopt the state and reasons of a successful alternative", () => {
+        const warning = new TestWarning("Served from backup");
+        const result = Result.fail<number>(new TestError("Primary down"), "should adopt the state and reasons of a successful alternative")
+            .orElse(() => Result.ok(42, "backup").withWarning(warning));
+        expect(result.isSuccess).toBe(true);
+        expect(result.currentState).toBe(42);
+        expect(result.reasons[0]).toBeInstanceOf(RecoveredError);
+        expect(result.warnings).toEqual([warning]);
+    });
+
+    it("should pass the current errors to the alternative", () => {
+        const error = new TestError("Primary down");
+        let received: AError[] = [];
+        Result.fail<number>(error, "should pass the current errors to the alternative").orElse(errors => { received = errors; return Result.ok(42, "backup"); });
+        expect(received).toEqual([error]);
+    });
+
+    it("should append the errors of a failed alternative", () => {
+        const result = Result.fail<number>(new TestError("Primary down"), "should append the errors of a failed alternative")
+            .orElse(() => Result.fail(new TestError("Backup down"), "backup"));
+        expect(result.isFailed).toBe(true);
+        expect(result.errors.map(e => e.message)).toEqual(["Primary down", "Backup down"]);
+    });
+
+    it("should not run the alternative on success", () => {
+        let ran = false;
+        Result.ok(42, "should not run the alternative on success").orElse(() => { ran = true; return Result.ok(43, "backup"); });
+        expect(ran).toBe(false);
+    });
+
+    it("should capture exceptional error on exception in the alternative", () => {
+        const result = Result.fail<number>(new TestError("Primary down"), "should capture exceptional error on exception in the alternative")
+            .orElse(() => { throw new Error("Intentionally thrown exception"); });
+        expect(result.errors[1]).toBeInstanceOf(ExceptionalError);
+    });
+});
+
+describe('Result.orElseAsync', () => {
+    it("should adopt a successful async alternative", async () => {
+        const result = await Result.fail<number>(new TestError("Primary down"), "should adopt a successful async alternative")
+            .orElseAsync(() => Result.tryAsync(async () => 42, "backup"));
+        expect(result.isSuccess).toBe(true);
+        expect(result.currentState).toBe(42);
+    });
+
+    it("should capture rejections of the alternative", async () => {
+        const result = await Result.fail<number>(new TestError("Primary down"), "should capture rejections of the alternative")
+            .orElseAsync(() => Promise.reject("Backup down"));
+        expect(result.errors[1]).toBeInstanceOf(PromiseRejection);
+    });
+
+    it("should capture exceptional error on exception in the alternative", async () => {
+        const result = await Result.fail<number>(new TestError("Primary down"), "should capture exceptional error on exception in the alternative")
+            .orElseAsync(() => { throw new Error("Intentionally thrown exception"); });
+        expect(result.errors[1]).toBeInstanceOf(ExceptionalError);
+    });
+
+    it("should not run the alternative on success", async () => {
+        let ran = false;
+        await Result.ok(42, "should not run the alternative on success").orElseAsync(async () => { ran = true; return Result.ok(43, "backup"); });
+        expect(ran).toBe(false);
+    });
+});
+
+describe('Result.mapError', () => {
+    class DomainError extends TestError { }
+
+    it("should translate errors into domain errors", () => {
+        const result = Result.try(() => { throw new Error("ECONNREFUSED"); }, "should translate errors into domain errors")
+            .mapError(e => e instanceof ExceptionalError ? new DomainError("Database unavailable").causedBy(e) : e);
+        expect(result.errors.length).toBe(1);
+        expect(result.errors[0]).toBeInstanceOf(DomainError);
+        expect(result.hasError(ExceptionalError)).toBe(true);
+    });
+
+    it("should leave non-error reasons untouched", () => {
+        const warning = new TestWarning("Slow");
+        const result = Result.ok(42, "should leave non-error reasons untouched").withWarning(warning)
+            .okIf(() => false, new TestError("This is a test error"))
+            .mapError(e => new DomainError(e.message));
+        expect(result.reasons[0]).toBe(warning);
+        expect(result.reasons[1]).toBeInstanceOf(DomainError);
+    });
+
+    it("should capture exceptional error on exception in the mapper", () => {
+        const result = Result.fail(new TestError("This is a test error"), "should capture exceptional error on exception in the mapper")
+            .mapError(() => { throw new Error("Intentionally thrown exception"); });
+        expect(result.errors.map(e => e.constructor)).toEqual([TestError, ExceptionalError]);
+    });
+});
+
+describe('Result.tap', () => {
+    it("should run side effects with the current state on success", () => {
+        let seen = 0;
+        let called = false;
+        const result = Result.ok(42, "should run side effects with the current state on success").tap(n => { seen = n; }).tap(() => { called = true; });
+        expect(seen).toBe(42);
+        expect(called).toBe(true);
+        expect(result.currentState).toBe(42);
+    });
+
+    it("should never alter the outcome", () => {
+        const result = Result.ok(42, "should never alter the outcome").tap(() => { throw new Error("Intentionally thrown exception"); });
+        expect(result.isSuccess).toBe(true);
+        expect(result.reasons.length).toBe(0);
+    });
+
+    it("should not run on failure", () => {
+        let called = false;
+        Result.fail(new TestError("This is a test error"), "should not run on failure").tap(() => { called = true; });
+        expect(called).toBe(false);
+    });
+});
+
+describe('Result.tapAsync', () => {
+    it("should await side effects with the current state on success", async () => {
+        let seen = 0;
+        let called = false;
+        await Result.ok(42, "should await side effects").tapAsync(async n => { seen = n; }).tapAsync(async () => { called = true; });
+        expect(seen).toBe(42);
+        expect(called).toBe(true);
+    });
+
+    it("should never alter the outcome", async () => {
+        const result = await Result.ok(42, "should never alter the outcome").tapAsync(() => Promise.reject("Nope"));
+        expect(result.isSuccess).toBe(true);
+    });
+
+    it("should not run on failure", async () => {
+        let called = false;
+        await Result.fail(new TestError("This is a test error"), "should not run on failure").tapAsync(async () => { called = true; });
+        expect(called).toBe(false);
+    });
+});
+
+describe('Result.tapError', () => {
+    it("should run side effects with the errors on failure", () => {
+        const error = new TestError("This is a test error");
+        let seen: AError[] = [];
+        Result.fail(error, "should run side effects with the errors on failure").tapError(errors => { seen = errors; });
+        expect(seen).toEqual([error]);
+    });
+
+    it("should never alter the outcome", () => {
+        const result = Result.fail(new TestError("This is a test error"), "should never alter the outcome").tapError(() => { throw new Error("Nope"); });
+        expect(result.errors.length).toBe(1);
+    });
+
+    it("should not run on success", () => {
+        let called = false;
+        Result.ok(42, "should not run on success").tapError(() => { called = true; });
+        expect(called).toBe(false);
+    });
+});
+
+describe('Result.tapErrorAsync', () => {
+    it("should await side effects with the errors on failure", async () => {
+        let seen: AError[] = [];
+        await Result.fail(new TestError("This is a test error"), "should await side effects").tapErrorAsync(async errors => { seen = errors; });
+        expect(seen.length).toBe(1);
+    });
+
+    it("should never alter the outcome", async () => {
+        const result = await Result.fail(new TestError("This is a test error"), "should never alter the outcome").tapErrorAsync(() => Promise.reject("Nope"));
+        expect(result.errors.length).toBe(1);
+    });
+
+    it("should not run on success", async () => {
+        let called = false;
+        await Result.ok(42, "should not run on success").tapErrorAsync(async () => { called = true; });
+        expect(called).toBe(false);
+    });
+});
+
+describe('Result.withContingency', () => {
+    it("should try alternatives in turn until one succeeds", () => {
+        const tried: string[] = [];
+        const result = Result.fail<number>(new TestError("Cache miss"), "Primary route")
+            .withContingency({ func: next => { tried.push("server"); next.bind(() => { throw new Error("Server down"); }); }, routineName: "Server route" })
+            .withContingency({ func: next => { tried.push("replica"); next.bind(() => 42); }, routineName: "Replica route" })
+            .withContingency({ func: next => { tried.push("never"); }, routineName: "Never route" });
+        expect(tried).toEqual(["server", "replica"]);
+        expect(result.children.map(c => c.routineName)).toEqual(["Server route", "Replica route"]);
+        expect(result.isFailed).toBe(true);
+    });
+
+    it("should not run on success", () => {
+        const result = Result.ok(42, "Primary route").withContingency({ func: next => { }, routineName: "Contingent route" }, "fallback");
+        expect(result.children.length).toBe(0);
+        expect(result.steps.map(s => [s.name, s.kind, s.outcome])).toEqual([["fallback", "withContingency", "skipped"]]);
+    });
+
+    it("should let contingencies spawn tracked sub-contingencies", () => {
+        const result = Result.fail<number>(new TestError("Cache miss"), "Primary route")
+            .withContingency({
+                func: next => {
+                    next.failIf(() => true, new TestError("Server down"), { func: sub => { sub.bind(() => 42); }, routineName: "Replica route" });
+                },
+                routineName: "Server route"
+            });
+        expect(result.child?.child?.routineName).toBe("Replica route");
+        expect(result.child?.child?.parent).toBe(result.child);
+    });
+
+    it("should record exceptions thrown by the contingent routine on the child", () => {
+        const result = Result.fail<number>(new TestError("Cache miss"), "Primary route")
+            .withContingency({ func: () => { throw new Error("Intentionally thrown exception"); }, routineName: "Contingent route" });
+        expect((result.child as Result).errors[0]).toBeInstanceOf(ExceptionalError);
+    });
+});
+
+describe('Result.withContingencyAsync', () => {
+    it("should await the contingent routine", async () => {
+        const result = await Result.fail<number>(new TestError("Cache miss"), "Primary route")
+            .withContingencyAsync({ func: next => next.bindAsync(async () => 42), routineName: "Server route" })
+            .withContingencyAsync({ func: next => { next.bind(() => 0); }, routineName: "Never route" });
+        expect(result.children.length).toBe(1);
+        expect((result.child as Result).currentState).toBe(42);
+    });
+
+    it("should record rejections of the contingent routine on the child", async () => {
+        const result = await Result.fail<number>(new TestError("Cache miss"), "Primary route")
+            .withContingencyAsync({ func: () => Promise.reject("Server down"), routineName: "Server route" });
+        expect((result.child as Result).errors[0]).toBeInstanceOf(PromiseRejection);
+    });
+
+    it("should record exceptions thrown by the contingent routine on the child", async () => {
+        const result = await Result.fail<number>(new TestError("Cache miss"), "Primary route")
+            .withContingencyAsync({ func: () => { throw new Error("Intentionally thrown exception"); }, routineName: "Server route" });
+        expect((result.child as Result).errors[0]).toBeInstanceOf(ExceptionalError);
+    });
+});
+
+describe('Result.resolveWith', () => {
+    it("should resume the pipeline with the state of the successful contingency", () => {
+        const result = Result.fail<number>(new TestError("Cache miss"), "Primary route")
+            .withContingency({ func: next => { next.bind(() => 42); }, routineName: "Server route" })
+            .resolveWith()
+            .bind(n => n + 1);
+        expect(result.isSuccess).toBe(true);
+        expect(result.currentState).toBe(43);
+        expect(result.reasons[0]).toBeInstanceOf(RecoveredError);
+    });
+
+    it("should resolve with a given contingency", () => {
+        const result = Result.fail<number>(new TestError("Cache miss"), "Primary route")
+            .withContingency({ func: next => { next.bind(() => 42); }, routineName: "Server route" });
+        expect(result.resolveWith(result.child as Result<number>).currentState).toBe(42);
+    });
+
+    it("should do nothing when no contingency succeeded", () => {
+        const result = Result.fail<number>(new TestError("Cache miss"), "Primary route")
+            .withContingency({ func: next => { next.bind(() => { throw new Error("Server down"); }); }, routineName: "Server route" });
+        expect(result.resolveWith().isFailed).toBe(true);
+        expect(result.resolveWith(result.child as Result<number>).isFailed).toBe(true);
+    });
+
+    it("should reject results outside of the contingency tree", () => {
+        const result = Result.fail<number>(new TestError("Cache miss"), "Primary route");
+        expect(() => result.resolveWith(Result.ok(42, "Stranger"))).toThrow("Routine 'Stranger' is not part of the contingency tree of routine 'Primary route'.");
+    });
+});
+
+describe('Result.effectiveState', () => {
+    it("should be the current state of a successful result", () => {
+        expect(Result.ok(42, "Primary route").effectiveState).toBe(42);
+    });
+
+    it("should be the state of the successful contingency of a failed result", () => {
+        const result = Result.ok(0, "Primary route")
+            .failIf(() => true, new TestError("Cache miss"), { func: next => { next.bind(() => 42); }, routineName: "Server route" });
+        expect(result.effectiveState).toBe(42);
+    });
+
+    it("should throw when no contingency succeeded", () => {
+        const result = Result.fail(new TestError("Cache miss"), "Primary route");
+        expect(() => result.effectiveState).toThrow("Routine 'Primary route' failed and none of its contingencies succeeded.");
+    });
+});
+
+describe('Result.walk', () => {
+    it("should visit the tree depth-first in creation order", () => {
+        const result = Result.ok(0, "Primary route")
+            .failIf(() => true, new TestError("Cache miss"), {
+                func: next => {
+                    next.failIf(() => true, new TestError("Server down"), { func: sub => { sub.okIf(() => false, new TestError("Replica down")); }, routineName: "Replica route" });
+                },
+                routineName: "Server route"
+            })
+            .withContingency({ func: () => { }, routineName: "Queue route" });
+        const visited: [string, number][] = [];
+        result.walk((r, depth) => visited.push([r.routineName, depth]));
+        expect(visited).toEqual([["Primary route", 0], ["Server route", 1], ["Replica route", 2], ["Queue route", 1]]);
+    });
+});
+
+describe('Result.flattenReasons', () => {
+    it("should list every reason of the tree", () => {
+        const result = Result.ok(0, "Primary route")
+            .failIf(() => true, new TestError("Cache miss"), { func: next => { next.withWarning(new TestWarning("Stale")); }, routineName: "Server route" });
+        expect(result.flattenReasons().map(r => r.message)).toEqual(["Cache miss", "Stale"]);
+    });
+});
+
+describe('Result.findSuccessfulLeaf', () => {
+    it("should find the first successful leaf", () => {
+        const result = Result.fail<number>(new TestError("Cache miss"), "Primary route")
+            .withContingency({ func: next => { next.bind(() => { throw new Error("Server down"); }); }, routineName: "Server route" })
+            .withContingency({ func: next => { next.bind(() => 42); }, routineName: "Replica route" });
+        expect(result.findSuccessfulLeaf()?.routineName).toBe("Replica route");
+    });
+
+    it("should return the result itself when it is a successful leaf", () => {
+        const result = Result.ok(42, "Primary route");
+        expect(result.findSuccessfulLeaf()).toBe(result);
+    });
+
+    it("should return undefined when nothing succeeded", () => {
+        expect(Result.fail(new TestError("Cache miss"), "Primary route").findSuccessfulLeaf()).toBeUndefined();
+    });
+});
+
+describe('Result.gen', () => {
+    const loadUser = (id: number) => Result.ok({ id, orgId: 7 }, "Load user").withWarning(new TestWarning("Served from cache"));
+    const loadOrg = (id: number) => Result.ok({ id, name: "acme" }, "Load org");
+
+    it("should keep earlier values in scope and return the generator's value", () => {
+        const result = Result.gen(function* () {
+            const user = yield* loadUser(1).yield();
+            const org = yield* loadOrg(user.orgId).yield();
+            return { user, org };
+        }, "should keep earlier values in scope");
+        expect(result.routineName).toBe("should keep earlier values in scope");
+        expect(result.currentState).toEqual({ user: { id: 1, orgId: 7 }, org: { id: 7, name: "acme" } });
+        expect(result.warnings.map(w => w.message)).toEqual(["Served from cache"]);
+    });
+
+    it("should short-circuit on a failed result, closing the generator", () => {
+        let reached = false;
+        let closed = false;
+        const result = Result.gen(function* () {
+            try {
+                const user = yield* loadUser(1).yield();
+                yield* Result.fail(new TestError("Org missing"), "Load org").yield();
+                reached = true;
+                return user;
+            }
+            finally {
+                closed = true;
+            }
+        }, "should short-circuit");
+        expect(reached).toBe(false);
+        expect(closed).toBe(true);
+        expect(result.errors.map(e => e.message)).toEqual(["Org missing"]);
+        expect(result.warnings.length).toBe(1);
+        expect(() => result.currentState).toThrow();
+    });
+
+    it("should capture exceptions as exceptional errors", () => {
+        const result = Result.gen(function* () {
+            yield* loadUser(1).yield();
+            throw new Error("Intentionally thrown exception");
+        }, "should capture exceptions");
+        expect(result.errors.map(e => e.constructor)).toEqual([ExceptionalError]);
+    });
+
+    it("should leave results non-iterable, so failed ones can be compared and spread", () => {
+        const error = new TestError("User missing");
+        expect(Result.fail(error, "Load user")).toEqual(Result.fail(error, "Load user"));
+        expect(() => [...(Result.fail(error, "Load user") as unknown as Iterable<unknown>)]).toThrow(/is not iterable/);
+    });
+});
+
+describe('Result.genAsync', () => {
+    it("should delegate to results and async results", async () => {
+        const result = await Result.genAsync(async function* () {
+            const user = yield* Result.tryAsync(async () => ({ id: 1, orgId: 7 }), "Load user").yield();
+            const org = yield* Result.ok({ id: user.orgId, name: "acme" }, "Load org").yield();
+            return `${org.name}/${user.id}`;
+        }, "should delegate to results and async results");
+        expect(result.currentState).toBe("acme/1");
+    });
+
+    it("should short-circuit on a failed result", async () => {
+        let reached = false;
+        const result = await Result.genAsync(async function* () {
+            yield* Result.tryAsync(() => Promise.reject("Down"), "Load user").yield();
+            reached = true;
+            return 42;
+        }, "should short-circuit");
+        expect(reached).toBe(false);
+        expect(result.errors.map(e => e.constructor)).toEqual([PromiseRejection]);
+    });
+
+    it("should capture exceptions as promise rejections", async () => {
+        const result = await Result.genAsync(async function* () {
+            yield* Result.ok(1, "Load user").yield();
+            throw new Error("Intentionally thrown exception");
+        }, "should capture exceptions");
+        expect(result.errors.map(e => e.constructor)).toEqual([PromiseRejection]);
+    });
+});
+
+describe('Result.bindTo', () => {
+    it("should accumulate named values across steps", () => {
+        const result = Result.ok({}, "should accumulate named values")
+            .bindTo("user", () => ({ id: 1, orgId: 7 }), "load user")
+            .bindTo("org", ({ user }) => Result.ok({ id: user.orgId, name: "acme" }, "Load org").withWarning(new TestWarning("Stale")), "load org")
+            .let("greeting", ({ user, org }) => `user ${user.id} of ${org.name}`);
+        expect(result.currentState).toEqual({ user: { id: 1, orgId: 7 }, org: { id: 7, name: "acme" }, greeting: "user 1 of acme" });
+        expect(result.warnings.map(w => w.message)).toEqual(["Stale"]);
+        expect(result.steps.map(s => s.kind)).toEqual(["bindTo", "bindTo", "let"]);
+    });
+
+    it("should start from an empty record when the state is not a plain object", () => {
+        expect(Result.ok(42, "should start from an empty record").bindTo("answer", n => n).currentState).toEqual({ answer: 42 });
+        expect(Result.ok([1], "should start from an empty record").let("count", () => 1).currentState).toEqual({ count: 1 });
+    });
+
+    it("should extend only plain objects, not class instances", () => {
+        class Point { constructor(public x: number) { } }
+        const bare = Object.assign(Object.create(null) as { id: number }, { id: 1 });
+        expect(Result.ok(new Date(0), "should extend only plain objects").bindTo("a", () => 1).currentState).toEqual({ a: 1 });
+        expect(Result.ok(new Point(3), "should extend only plain objects").let("a", () => 1).currentState).toEqual({ a: 1 });
+        expect(Result.ok(bare, "should extend only plain objects").let("a", () => 1).currentState).toEqual({ id: 1, a: 1 });
+    });
+
+    it("should fail with the errors of a failed result and skip later steps", () => {
+        let ran = false;
+        const result = Result.ok({}, "should fail with the errors of a failed result")
+            .bindTo("user", () => Result.fail<{ id: number }>(new TestError("No such user"), "Load user"))
+            .let("id", ({ user }) => { ran = true; return user.id; });
+        expect(ran).toBe(false);
+        expect(result.errors.map(e => e.message)).toEqual(["No such user"]);
+        expect(result.currentState).toEqual({});
+    });
+
+    it("should capture exceptions like bind", () => {
+        const bound = Result.ok({}, "should capture exceptions").bindTo("user", () => { throw new Error("Intentionally thrown exception"); });
+        const computed = Result.ok({}, "should capture exceptions").let("now", () => { throw new Error("Intentionally thrown exception"); });
+        expect(bound.errors.map(e => e.constructor)).toEqual([ExceptionalError]);
+        expect(computed.errors.map(e => e.constructor)).toEqual([ExceptionalError]);
+    });
+
+    it("should bind a returned result as it is with let", () => {
+        const inner = Result.ok(1, "Inner");
+        expect(Result.ok({}, "should bind a returned result as it is").let("inner", () => inner).currentState.inner).toBe(inner);
+    });
+});
+
+describe('Result.bindToAsync', () => {
+    it("should bind awaited values and the states of async results", async () => {
+        const result = await Result.ok({}, "should bind awaited values")
+            .bindToAsync("user", async () => ({ id: 1, orgId: 7 }))
+            .bindToAsync("org", ({ user }) => Result.tryAsync(async () => ({ id: user.orgId }), "Load org"))
+            .bindTo("now", () => 1700000000000)
+            .let("label", ({ user, org }) => `${user.id}@${org.id}`);
+        expect(result.currentState).toEqual({ user: { id: 1, orgId: 7 }, org: { id: 7 }, now: 1700000000000, label: "1@7" });
+    });
+
+    it("should capture rejections like bindAsync", async () => {
+        const result = await Result.ok({}, "should capture rejections").bindToAsync("user", () => Promise.reject("Down"));
+        expect(result.errors.map(e => e.constructor)).toEqual([PromiseRejection]);
+    });
+});
+
+describe('Result.stateHistory', () => {
+    it("should list the state each step produced", () => {
+        const result = Result.ok(1, "should list the state each step produced")
+            .bind(n => n + 1, "increment")
+            .okIf(n => n > 0, new TestError("This is a test error"), "guard")
+            .bind(n => n * 10, "scale")
+            .bind(n => n + 1, "increment")
+            .okIf(() => false, new TestError("This is a test error"))
+            .bind(n => n, "skipped");
+        expect(result.stateHistory).toEqual([
+            { name: "increment", kind: "bind", state: 2 },
+            { name: "scale", kind: "bind", state: 20 },
+            { name: "increment", kind: "bind", state: 21 }
+        ]);
+        expect(result.stateAt("scale")).toBe(20);
+        expect(result.stateAt("increment")).toBe(21);
+        expect(result.stateAt("skipped")).toBeUndefined();
+    });
+
+    it("should keep every intermediate record of a context", () => {
+        const result = Result.ok({}, "should keep every intermediate record").bindTo("a", () => 1, "a").bindTo("b", () => 2, "b");
+        expect(result.stateAt("a")).toEqual({ a: 1 });
+        expect(result.stateAt("b")).toEqual({ a: 1, b: 2 });
+    });
+});
@@ -0,0 +1,121 @@
+import { AError } from '../src/AError';
+import { CancelledError } from '../src/CancelledError';
+import { ExceptionalError } from '../src/ExceptionalError';
+import { AsyncStepError, Result } from '../src/Result';
+import { SchemaIssueError } from '../src/SchemaIssueError';
+import { TimeoutError } from '../src/TimeoutError';
+import { ValidationError } from '../src/ValidationError';
+
+/*
+ * Type-level tests: each `expectTypeOf<A>().toEqual<B>()` only compiles when A and B are the same type,
+ * and ts-jest fails the suite on compile errors. The runtime assertions merely keep Jest happy.
+ */
+
+type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+
+function expectTypeOf<A>() {
+    return {
+        toEqual: <B>(..._proof: Equals<A, B> extends true ? [] : [never]) => true
+    };
+}
+
+type ErrorsOf<R> = R extends Result<any, infer E> ? E : R extends PromiseLike<Result<any, infer E>> ? E : never;
+
+// Error classes are compared structurally, so each one needs a distinguishing member.
+class NotFoundError extends AError { readonly status = 404; }
+class ConflictError extends AError { readonly status = 409; }
+class DomainError extends AError { readonly domain = true; }
+
+describe('Result<TState, TError>', () => {
+    it("should start without possible errors for ok and with the given ones for fail", () => {
+        expectTypeOf<ErrorsOf<ReturnType<typeof Result.ok<number>>>>().toEqual<never>();
+        const failed = Result.fail(new NotFoundError("No such user"), "Load user");
+        expect(expectTypeOf<ErrorsOf<typeof failed>>().toEqual<NotFoundError>()).toBe(true);
+        expect(expectTypeOf<typeof failed.errors>().toEqual<NotFoundError[]>()).toBe(true);
+    });
+
+    it("should infer errors from the error argument of okIf and failIf", () => {
+        const result = Result.ok(42, "Load user")
+            .okIf(n => n > 0, new NotFoundError("No such user"))
+            .failIf(n => n > 100, new ConflictError("Duplicate user"));
+        expect(expectTypeOf<ErrorsOf<typeof result>>().toEqual<NotFoundError | ConflictError | ExceptionalError>()).toBe(true);
+    });
+
+    it("should widen with exceptional errors and rejections in bind and bindAsync", async () => {
+        const bound = Result.ok(42, "Load user").bind(n => n + 1);
+        expect(expectTypeOf<ErrorsOf<typeof bound>>().toEqual<ExceptionalError>()).toBe(true);
+        const awaited = await Result.ok(42, "Load user").bindAsync(async n => n + 1);
+        expect(expectTypeOf<ErrorsOf<typeof awaited>>().toEqual<AsyncStepError>()).toBe(true);
+        const tried = Result.try(() => 42, "Load user");
+        expect(expectTypeOf<ErrorsOf<typeof tried>>().toEqual<ExceptionalError>()).toBe(true);
+    });
+
+    it("should carry validation, schema and cancellation errors", () => {
+        const validated = Result.ok({ zip: "12a" }, "Sign up").validate([{ path: "zip", code: "postal_code", check: () => false }]);
+        expect(expectTypeOf<ErrorsOf<typeof validated>>().toEqual<ValidationError | ExceptionalError>()).toBe(true);
+        const parsed = Result.parse({ '~standard': { version: 1, vendor: "tests", validate: (value: unknown) => ({ value: String(value) }) } }, 42, "Parse");
+        expect(expectTypeOf<ErrorsOf<typeof parsed>>().toEqual<SchemaIssueError | ExceptionalError>()).toBe(true);
+        const bounded = Result.ok(42, "Load user").withTimeout(1000);
+        expect(expectTypeOf<ErrorsOf<typeof bounded>>().toEqual<CancelledError | TimeoutError>()).toBe(true);
+    });
+
+    it("should narrow through recover and mapError", () => {
+        const recovered = Result.fail(new NotFoundError("No such user"), "Load user").recover(NotFoundError, () => "guest");
+        expect(expectTypeOf<ErrorsOf<typeof recovered>>().toEqual<ExceptionalError>()).toBe(true);
+        const partial = Result.fail<string, NotFoundError | ConflictError>([new ConflictError("Duplicate user")], "Load user").recover(NotFoundError, () => "guest");
+        expect(expectTypeOf<ErrorsOf<typeof partial>>().toEqual<NotFoundError | ConflictError | ExceptionalError>()).toBe(true);
+        const mapped = Result.try(() => 42, "Load user").mapError(e => new DomainError(e.message));
+        expect(expectTypeOf<ErrorsOf<typeof mapped>>().toEqual<DomainError | ExceptionalError>()).toBe(true);
+    });
+
+    it("should type the errors handed to handlers", () => {
+        const result = Result.fail(new NotFoundError("No such user"), "Load user");
+        result.tapError(errors => expectTypeOf<typeof errors>().toEqual<NotFoundError[]>());
+        const status = result.match({ ok: () => 200, fail: errors => expectTypeOf<typeof errors>().toEqual<NotFoundError[]>() ? 404 : 500 });
+        expect(status).toBe(404);
+    });
+
+    it("should stay compatible with Result<T>", () => {
+        const typed: Result<number> = Result.ok(42, "Load user").okIf(n => n > 0, new NotFoundError("No such user"));
+        expect(expectTypeOf<typeof typed.errors>().toEqual<AError[]>()).toBe(true);
+        const widened: Result<number> = typed.okIf(() => true, new ConflictError("Duplicate user")).bind(n => n + 1);
+        expect(widened.isSuccess).toBe(true);
+    });
+
+    it("should reject mismatching expectations", () => {
+        // @ts-expect-error – the errors of a bound result include ExceptionalError.
+        expectTypeOf<ErrorsOf<ReturnType<Result<number, never>['bind']>>>().toEqual<never>();
+        expect(true).toBe(true);
+    });
+});
+
+describe('Result.gen types', () => {
+    it("should infer the state from the return value and the errors from the delegated results", () => {
+        const result = Result.gen(function* () {
+            const user = yield* Result.fail<{ orgId: number }, NotFoundError>(new NotFoundError("No such user"), "Load user").yield();
+            const org = yield* Result.ok({ name: "acme" }, "Load org").okIf(() => true, new ConflictError("Duplicate org")).yield();
+            return `${org.name}/${user.orgId}`;
+        }, "Load dashboard");
+        expect(expectTypeOf<typeof result>().toEqual<Result<string, NotFoundError | ConflictError | ExceptionalError>>()).toBe(true);
+    });
+});
+
+describe('Result.bindTo types', () => {
+    it("should type the accumulated record and the errors of bound results", async () => {
+        const result = Result.ok({}, "Load dashboard")
+            .bindTo("user", () => Result.fail<{ orgId: number }, NotFoundError>(new NotFoundError("No such user"), "Load user"))
+            .let("now", () => new Date(0))
+            .bindTo("orgId", ({ user }) => user.orgId);
+        expect(expectTypeOf<typeof result.currentState>().toEqual<{ user: { orgId: number }, now: Date, orgId: number }>()).toBe(true);
+        expect(expectTypeOf<ErrorsOf<typeof result>>().toEqual<NotFoundError | ExceptionalError>()).toBe(true);
+        const awaited = await Result.ok({ id: 1 }, "Load dashboard").bindToAsync("org", ({ id }) => Result.tryAsync(async () => ({ name: `org ${id}` }), "Load org"));
+        expect(expectTypeOf<typeof awaited.currentState>().toEqual<{ id: number, org: { name: string } }>()).toBe(true);
+    });
+
+    it("should not extend arrays or built-in class instances", () => {
+        const dated = Result.ok(new Date(0), "Load dashboard").bindTo("a", () => 1);
+        const listed = Result.ok(new Map<string, number>(), "Load dashboard").let("a", () => 1);
+        expect(expectTypeOf<typeof dated.currentState>().toEqual<{ a: number }>()).toBe(true);
+        expect(expectTypeOf<typeof listed.currentState>().toEqual<{ a: number }>()).toBe(true);
+    });
+});
@@ -0,0 +1,179 @@
+import { ExceptionalError } from '../src/ExceptionalError';
+import { FailurePolicies } from '../src/FailurePolicy';
+import { PromiseRejection } from '../src/PromiseRejection';
+import { Result } from '../src/Result';
+import { RetriesExhaustedError } from '../src/RetriesExhaustedError';
+import { RetryAttemptFailed } from '../src/RetryAttemptFailed';
+import { Backoffs, RetryPolicy, isRetryable, retryDelay, sleepFor } from '../src/RetryPolicy';
+import { TestError } from './setup/TestError';
+
+/** Resolves immediately and records every requested delay. */
+function fakeSleep() {
+    const delays: number[] = [];
+    return { delays, sleep: async (delayMs: number) => { delays.push(delayMs); } };
+}
+
+/** The failed attempts recorded on `result`. */
+function attemptsOf(result: Result): RetryAttemptFailed[] {
+    return result.reasons.filter((r): r is RetryAttemptFailed => r instanceof RetryAttemptFailed);
+}
+
+/** Fails `failures` times, then resolves with `value`. */
+function flaky<T>(failures: number, value: T) {
+    let calls = 0;
+    const action = () => ++calls <= failures ? Promise.reject(new Error(`Failure ${calls}`)) : Promise.resolve(value);
+    return { action, calls: () => calls };
+}
+
+describe('Backoffs', () => {
+    it("should wait a fixed delay", () => {
+        const backoff = Backoffs.fixed(100);
+        expect([1, 2, 3].map(backoff)).toEqual([100, 100, 100]);
+    });
+
+    it("should grow the delay exponentially up to the cap", () => {
+        expect([1, 2, 3, 4].map(Backoffs.exponential(100))).toEqual([100, 200, 400, 800]);
+        expect([1, 2, 3, 4].map(Backoffs.exponential(100, { factor: 3, maxDelayMs: 500 }))).toEqual([100, 300, 500, 500]);
+    });
+});
+
+describe('retryDelay', () => {
+    it("should be zero without backoff", () => {
+        expect(retryDelay({ maxAttempts: 3 }, 1)).toBe(0);
+    });
+
+    it("should apply jitter around the backoff delay", () => {
+        const policy: RetryPolicy = { maxAttempts: 3, backoff: Backoffs.fixed(100), jitter: 0.5 };
+        expect(retryDelay({ ...policy, random: () => 0 }, 1)).toBe(50);
+        expect(retryDelay({ ...policy, random: () => 0.5 }, 1)).toBe(100);
+        expect(retryDelay({ ...policy, random: () => 0.999 }, 1)).toBeCloseTo(149.9);
+    });
+
+    it("should never be negative", () => {
+        expect(retryDelay({ maxAttempts: 3, backoff: Backoffs.fixed(100), jitter: 2, random: () => 0 }, 1)).toBe(0);
+    });
+
+    it("should default to Math.random", () => {
+        const delay = retryDelay({ maxAttempts: 3, backoff: Backoffs.fixed(100), jitter: 0.5 }, 1);
+        expect(delay).toBeGreaterThanOrEqual(50);
+        expect(delay).toBeLessThan(150);
+    });
+});
+
+describe('isRetryable', () => {
+    class TransientError extends TestError { }
+
+    it("should retry every failure by default", () => {
+        expect(isRetryable({ maxAttempts: 3 }, new TestError("This is a test error"))).toBe(true);
+    });
+
+    it("should match a class, a list of classes or a predicate", () => {
+        const error = new TransientError("Timed out");
+        expect(isRetryable({ maxAttempts: 3, retryIf: TransientError }, error)).toBe(true);
+        expect(isRetryable({ maxAttempts: 3, retryIf: [PromiseRejection, TransientError] }, error)).toBe(true);
+        expect(isRetryable({ maxAttempts: 3, retryIf: [PromiseRejection] }, error)).toBe(false);
+        expect(isRetryable({ maxAttempts: 3, retryIf: e => e.message === "Timed out" }, error)).toBe(true);
+    });
+});
+
+describe('sleepFor', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it("should default to setTimeout", async () => {
+        let slept = false;
+        const sleeping = sleepFor({ maxAttempts: 3 }, 1000).then(() => { slept = true; });
+        await jest.advanceTimersByTimeAsync(999);
+        expect(slept).toBe(false);
+        await jest.advanceTimersByTimeAsync(1);
+        await sleeping;
+        expect(slept).toBe(true);
+    });
+});
+
+describe('Result.tryAsync with retry', () => {
+    it("should succeed on a later attempt and record the failed ones", async () => {
+        const { delays, sleep } = fakeSleep();
+        const { action, calls } = flaky(2, 42);
+        const result = await Result.tryAsync(action, "should succeed on a later attempt", { retry: { maxAttempts: 3, backoff: Backoffs.exponential(100), sleep } });
+        expect(result.isSuccess).toBe(true);
+        expect(result.currentState).toBe(42);
+        expect(calls()).toBe(3);
+        expect(delays).toEqual([100, 200]);
+        expect(attemptsOf(result).map(a => a.attempt)).toEqual([1, 2]);
+        expect(attemptsOf(result)[0].error).toBeInstanceOf(PromiseRejection);
+        expect(attemptsOf(result)[0].message).toBe("Attempt 1 failed: Failure 1");
+        expect(result.warnings).toEqual([]);
+    });
+
+    it("should give up once attempts are exhausted", async () => {
+        const { delays, sleep } = fakeSleep();
+        const { action, calls } = flaky(5, 42);
+        const result = await Result.tryAsync(action, "should give up once attempts are exhausted", { retry: { maxAttempts: 3, backoff: Backoffs.fixed(10), sleep } });
+        expect(result.isFailed).toBe(true);
+        expect(calls()).toBe(3);
+        expect(delays).toEqual([10, 10]);
+        expect(attemptsOf(result).length).toBe(3);
+        expect(result.errors.length).toBe(1);
+        const exhausted = result.errors[0] as RetriesExhaustedError;
+        expect(exhausted).toBeInstanceOf(RetriesExhaustedError);
+        expect(exhausted.attempts).toBe(3);
+        expect(exhausted.message).toBe("Gave up after 3 attempts: Failure 3");
+        expect(exhausted.causes[0]).toBeInstanceOf(PromiseRejection);
+    });
+
+    it("should not retry non-retryable failures", async () => {
+        const { action, calls } = flaky(5, 42);
+        const result = await Result.tryAsync(action, "should not retry non-retryable failures", { retry: { maxAttempts: 3, retryIf: ExceptionalError, sleep: fakeSleep().sleep } });
+        expect(calls()).toBe(1);
+        expect(attemptsOf(result).length).toBe(0);
+        expect(result.errors[0]).toBeInstanceOf(PromiseRejection);
+    });
+
+    it("should retry synchronous exceptions", async () => {
+        let calls = 0;
+        const result = await Result.tryAsync<number>(() => { if (++calls < 2) throw new Error("Intentionally thrown exception"); return Promise.resolve(42); },
+            "should retry synchronous exceptions", { retry: { maxAttempts: 2, sleep: fakeSleep().sleep } });
+        expect(result.currentState).toBe(42);
+        expect(attemptsOf(result)[0].error).toBeInstanceOf(ExceptionalError);
+    });
+
+    it("should report a single attempt", async () => {
+        const result = await Result.tryAsync(() => Promise.reject("Down"), "should report a single attempt", { retry: { maxAttempts: 1 } });
+        expect(result.errors[0].message).toBe("Gave up after 1 attempt: Down");
+    });
+});
+
+describe('Result.bindAsync with retry', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it("should retry with the current state and real timers by default", async () => {
+        const { action, calls } = flaky(1, 43);
+        const inputs: number[] = [];
+        const pending = Result.ok(42, "should retry with the current state")
+            .bindAsync((n: number) => { inputs.push(n); return action(); }, { name: "fetch", retry: { maxAttempts: 2, backoff: Backoffs.fixed(1000) } })
+            .then(result => result);
+        await jest.advanceTimersByTimeAsync(1000);
+        const result = await pending;
+        expect(calls()).toBe(2);
+        expect(inputs).toEqual([42, 42]);
+        expect(result.currentState).toBe(43);
+        expect(result.steps[0].reasons[0]).toBeInstanceOf(RetryAttemptFailed);
+        expect(result.steps[0].outcome).toBe("ran");
+    });
+
+    it("should not let failed attempts fail a pipeline that treats warnings as failures", async () => {
+        for (const policy of [FailurePolicies.warningsAsErrors, FailurePolicies.maxWarnings(0)]) {
+            const { action } = flaky(1, 42);
+            const result = await Result.ok(7, "should not let failed attempts fail the pipeline")
+                .withFailurePolicy(policy)
+                .bindAsync(action, { retry: { maxAttempts: 3, sleep: fakeSleep().sleep } })
+                .bind(n => n + 1, "next");
+            expect(result.isSuccess).toBe(true);
+            expect(result.currentState).toBe(43);
+            expect(result.steps.map(s => s.outcome)).toEqual(["ran", "ran"]);
+            expect(attemptsOf(result).length).toBe(1);
+        }
+    });
+});
@@ -0,0 +1,193 @@
+import { getEventListeners } from 'events';
+import { CancelledError } from '../src/CancelledError';
+import { ExceptionalError } from '../src/ExceptionalError';
+import { PromiseRejection } from '../src/PromiseRejection';
+import { Result } from '../src/Result';
+import { TestError } from './setup/TestError';
+import { TestWarning } from './setup/TestWarning';
+
+/** A routine resolving with `value` after `ms` of (fake) time, or failing with `error`; records aborts. */
+function routine<T>(name: string, ms: number, value: T, error?: TestError) {
+    const log = { started: false, aborted: false };
+    const run = (signal: AbortSignal) => {
+        log.started = true;
+        signal.addEventListener('abort', () => { log.aborted = true; });
+        return Result.tryAsync(() => new Promise<T>(resolve => setTimeout(() => resolve(value), ms)), name)
+            .okIf(() => !error, error ?? new TestError("unused"));
+    };
+    return { run, log };
+}
+
+beforeEach(() => jest.useFakeTimers());
+afterEach(() => jest.useRealTimers());
+
+describe('Result.all', () => {
+    it("should succeed with the tuple of states when every routine succeeds", async () => {
+        const pending = Result.all([routine("Load user", 20, { id: 7 }).run, routine("Load org", 10, "acme").run], "Load dashboard");
+        await jest.advanceTimersByTimeAsync(20);
+        const result = await pending;
+        const [user, org]: [{ id: number }, string] = result.currentState;
+        expect(result.routineName).toBe("Load dashboard");
+        expect(user).toEqual({ id: 7 });
+        expect(org).toBe("acme");
+    });
+
+    it("should fail with every collected error, tagged with its routine name", async () => {
+        const pending = Result.all([
+            routine("Load user", 20, 1, new TestError("User missing")).run,
+            routine("Load org", 10, 2).run,
+            routine("Load plan", 30, 3, new TestError("Plan missing")).run
+        ], "Load dashboard");
+        await jest.advanceTimersByTimeAsync(30);
+        const result = await pending;
+        expect(result.isFailed).toBe(true);
+        expect(result.errors.map(e => [e.message, e.getMetadata("routineName")])).toEqual([["User missing", "Load user"], ["Plan missing", "Load plan"]]);
+        expect(() => result.currentState).toThrow();
+    });
+
+    it("should keep tags that are already set", async () => {
+        const error = new TestError("User missing").withMetadata("routineName", "Inner routine");
+        const result = await Result.all([() => Result.fail(error, "Outer routine")], "Load dashboard");
+        expect(result.errors[0].getMetadata("routineName")).toBe("Inner routine");
+    });
+
+    it("should tag copies of reasons shared by several routines, leaving the caller's instance untouched", async () => {
+        const shared = new TestError("Quota exceeded");
+        const result = await Result.all([() => Result.fail(shared, "Load user"), () => Result.fail(shared, "Load org")], "Load dashboard");
+        expect(result.errors.map(e => e.getMetadata("routineName"))).toEqual(["Load user", "Load org"]);
+        expect(result.errors[0]).not.toBe(result.errors[1]);
+        expect(shared.hasMetadata("routineName")).toBe(false);
+    });
+
+    it("should capture routines that throw or reject", async () => {
+        const result = await Result.all([
+            () => { throw new Error("Intentionally thrown exception"); },
+            () => Promise.reject("Down")
+        ], "Load dashboard");
+        expect(result.errors.map(e => e.constructor)).toEqual([ExceptionalError, PromiseRejection]);
+        expect(result.errors.map(e => e.getMetadata("routineName"))).toEqual(["Load dashboard #1", "Load dashboard #2"]);
+    });
+
+    it("should run at most `concurrency` routines at once", async () => {
+        const routines = [1, 2, 3, 4, 5].map(n => routine(`Routine ${n}`, 100, n));
+        const pending = Result.all(routines.map(r => r.run), "Batch", { concurrency: 2 });
+        expect(routines.map(r => r.log.started)).toEqual([true, true, false, false, false]);
+        await jest.advanceTimersByTimeAsync(100);
+        expect(routines.map(r => r.log.started)).toEqual([true, true, true, true, false]);
+        await jest.advanceTimersByTimeAsync(200);
+        expect((await pending).currentState).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("should succeed with an empty tuple", async () => {
+        expect((await Result.all([], "Nothing to do")).currentState).toEqual([]);
+    });
+
+    it("should reject invalid concurrency limits", () => {
+        expect(() => Result.all([], "Batch", { concurrency: 0 })).toThrow("Concurrency must be at least 1, got 0.");
+    });
+
+    it("should be cancelled through its signal", async () => {
+        const controller = new AbortController();
+        const slow = routine("Slow", 1000, 1);
+        const pending = Result.all([slow.run], "Batch", { signal: controller.signal });
+        controller.abort("Client disconnected");
+        const result = await pending;
+        expect(slow.log.aborted).toBe(true);
+        expect(result.errors.map(e => e.constructor)).toEqual([CancelledError]);
+    });
+
+    it("should not start routines when already cancelled", async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const slow = routine("Slow", 1000, 1);
+        const result = await Result.all([slow.run], "Batch", { signal: controller.signal });
+        expect(slow.log.started).toBe(false);
+        expect(result.isCancelled).toBe(true);
+    });
+
+    it("should stop listening to its signal once settled", async () => {
+        const shared = new AbortController();
+        for (let i = 0; i < 50; i++) {
+            const pending = Result.all([routine("Fast", 10, i).run], "Batch", { signal: shared.signal });
+            await jest.advanceTimersByTimeAsync(10);
+            await pending;
+        }
+        expect(getEventListeners(shared.signal, 'abort').length).toBe(0);
+    });
+});
+
+describe('Result.allSettled', () => {
+    it("should always succeed with every routine's result", async () => {
+        const pending = Result.allSettled([routine("Load user", 20, 1, new TestError("User missing")).run, routine("Load org", 10, "acme").run], "Load dashboard");
+        await jest.advanceTimersByTimeAsync(20);
+        const result = await pending;
+        const [user, org] = result.currentState;
+        expect(result.isSuccess).toBe(true);
+        expect(result.reasons.length).toBe(0);
+        expect(user.isFailed).toBe(true);
+        expect(user.routineName).toBe("Load user");
+        expect(org.currentState).toBe("acme");
+    });
+});
+
+describe('Result.any', () => {
+    it("should adopt the first success and abort the others", async () => {
+        const failing = routine("Primary", 10, 1, new TestError("Primary down"));
+        const fast = routine("Replica", 20, 2);
+        const slow = routine("Backup", 100, 3);
+        const pending = Result.any([failing.run, fast.run, slow.run], "Load user");
+        await jest.advanceTimersByTimeAsync(20);
+        const result = await pending;
+        expect(result.isSuccess).toBe(true);
+        expect(result.currentState).toBe(2);
+        expect(result.reasons.length).toBe(0);
+        expect(slow.log.aborted).toBe(true);
+    });
+
+    it("should keep the reasons of the winner", async () => {
+        const result = await Result.any([() => Result.ok(1, "Replica").withWarning(new TestWarning("Stale"))], "Load user");
+        expect(result.warnings[0].getMetadata("routineName")).toBe("Replica");
+    });
+
+    it("should not start further routines once one succeeded", async () => {
+        const later = routine("Later", 10, 2);
+        const result = await Result.any([() => Result.ok(1, "First"), later.run], "Load user", { concurrency: 1 });
+        expect(result.currentState).toBe(1);
+        expect(later.log.started).toBe(false);
+    });
+
+    it("should aggregate every failure when none succeeds", async () => {
+        const pending = Result.any([routine("Primary", 10, 1, new TestError("Primary down")).run, routine("Replica", 20, 2, new TestError("Replica down")).run], "Load user");
+        await jest.advanceTimersByTimeAsync(20);
+        const result = await pending;
+        expect(result.isFailed).toBe(true);
+        expect(result.errors.map(e => e.getMetadata("routineName"))).toEqual(["Primary", "Replica"]);
+    });
+
+    it("should require at least one routine", () => {
+        expect(() => Result.any([], "Load user")).toThrow("Routine 'Load user' needs at least one routine to run.");
+    });
+});
+
+describe('Result.race', () => {
+    it("should adopt the first routine to settle, even a failed one", async () => {
+        const failing = routine("Primary", 10, 1, new TestError("Primary down"));
+        const slow = routine("Replica", 20, 2);
+        const pending = Result.race([failing.run, slow.run], "Load user");
+        await jest.advanceTimersByTimeAsync(10);
+        const result = await pending;
+        expect(result.isFailed).toBe(true);
+        expect(result.errors[0].message).toBe("Primary down");
+        expect(slow.log.aborted).toBe(true);
+    });
+
+    it("should adopt the state of a successful winner", async () => {
+        const pending = Result.race([routine("Primary", 30, 1).run, routine("Replica", 20, 2).run], "Load user");
+        await jest.advanceTimersByTimeAsync(20);
+        expect((await pending).currentState).toBe(2);
+    });
+
+    it("should require at least one routine", () => {
+        expect(() => Result.race([], "Load user")).toThrow("Routine 'Load user' needs at least one routine to run.");
+    });
+});
@@ -0,0 +1,127 @@
+import { ExceptionalError } from '../src/ExceptionalError';
+import { PromiseRejection } from '../src/PromiseRejection';
+import { Result } from '../src/Result';
+import { StandardSchema, StandardSchemaIssue } from '../src/Schema';
+import { SchemaIssueError } from '../src/SchemaIssueError';
+import { groupByPath } from '../src/Validation';
+import { TestError } from './setup/TestError';
+
+interface Order {
+    id: number;
+    lines: { sku: string, qty: number }[];
+}
+
+/** A hand-written validator for orders, following the Standard Schema interface. */
+const orderSchema: StandardSchema<unknown, Order> = {
+    '~standard': {
+        version: 1,
+        vendor: "tests",
+        validate: (value: any) => {
+            const issues: StandardSchemaIssue[] = [];
+            if (typeof value?.id !== 'number') issues.push({ message: "Expected a numeric id", path: ["id"] });
+            (value?.lines ?? []).forEach((line: any, i: number) => {
+                if (!(line.qty > 0)) issues.push({ message: "Quantity must be positive", path: ["lines", { key: i }, "qty"] });
+            });
+            return issues.length ? { issues } : { value: { id: value.id, lines: value.lines } };
+        }
+    }
+};
+
+function asyncSchema<T>(validate: (value: unknown) => Promise<any>): StandardSchema<unknown, T> {
+    return { '~standard': { version: 1, vendor: "tests", validate } };
+}
+
+describe('Result.parse', () => {
+    it("should carry the schema's output as its state", () => {
+        const result = Result.parse(orderSchema, { id: 7, lines: [{ sku: "A-1", qty: 2 }], extra: true }, "Parse order");
+        const order: Order = result.currentState;
+        expect(result.routineName).toBe("Parse order");
+        expect(order).toEqual({ id: 7, lines: [{ sku: "A-1", qty: 2 }] });
+    });
+
+    it("should record each issue with its path, message and offending value", () => {
+        const result = Result.parse(orderSchema, { id: "7", lines: [{ sku: "A-1", qty: 2 }, { sku: "B-2", qty: 0 }] }, "Parse order");
+        expect(result.isFailed).toBe(true);
+        const errors = result.errors as SchemaIssueError[];
+        expect(errors.every(e => e instanceof SchemaIssueError)).toBe(true);
+        expect(errors.map(e => [e.path, e.message, e.value, e.code])).toEqual([
+            ["id", "Expected a numeric id", "7", "schema"],
+            ["lines.1.qty", "Quantity must be positive", 0, "schema"]
+        ]);
+        expect(errors[1].segments).toEqual(["lines", 1, "qty"]);
+        expect(Object.keys(groupByPath(result.errors))).toEqual(["id", "lines.1.qty"]);
+    });
+
+    it("should record issues without a path against the input itself", () => {
+        const result = Result.parse({ '~standard': { version: 1, vendor: "tests", validate: () => ({ issues: [{ message: "Expected an object" }] }) } }, null, "Parse order");
+        expect((result.errors[0] as SchemaIssueError).path).toBe("");
+        expect((result.errors[0] as SchemaIssueError).value).toBeNull();
+    });
+
+    it("should record async schemas and throwing validators as exceptions", () => {
+        const result = Result.parse(asyncSchema(async () => ({ value: 1 })), 1, "Parse order");
+        expect(result.errors[0]).toBeInstanceOf(ExceptionalError);
+        expect((result.errors[0] as ExceptionalError).exception.message).toBe("The 'tests' schema validates asynchronously. Use parseAsync or bindParseAsync instead.");
+    });
+});
+
+describe('Result.parseAsync', () => {
+    it("should await async validation", async () => {
+        const result = await Result.parseAsync(asyncSchema<number>(async value => ({ value: Number(value) })), "42", "Parse quantity");
+        expect(result.currentState).toBe(42);
+    });
+
+    it("should record rejections", async () => {
+        const result = await Result.parseAsync(asyncSchema(() => Promise.reject("Registry down")), "42", "Parse quantity");
+        expect(result.errors.map(e => e.constructor)).toEqual([PromiseRejection]);
+    });
+
+    it("should honour the signal option", async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const result = await Result.parseAsync(orderSchema, { id: 7, lines: [] }, "Parse order", { signal: controller.signal });
+        expect(result.isCancelled).toBe(true);
+    });
+});
+
+describe('Result.bindParse', () => {
+    it("should validate the current state and narrow it", () => {
+        const result = Result.ok<unknown>(JSON.parse('{"id":7,"lines":[]}'), "Handle request")
+            .bindParse(orderSchema, "parse body")
+            .bind(order => order.id);
+        expect(result.currentState).toBe(7);
+        expect(result.steps.map(s => [s.kind, s.name])).toEqual([["bindParse", "parse body"], ["bind", undefined]]);
+    });
+
+    it("should fail with the issues found and skip later steps", () => {
+        const result = Result.ok<unknown>({ lines: [] }, "Handle request")
+            .bindParse(orderSchema)
+            .bind(order => order.id);
+        expect(result.errors.map(e => e.message)).toEqual(["Expected a numeric id"]);
+        expect(result.steps.map(s => s.outcome)).toEqual(["failed", "skipped"]);
+    });
+
+    it("should be skipped when the pipeline already failed", () => {
+        const result = Result.fail(new TestError("This is a test error"), "Handle request").bindParse(orderSchema);
+        expect(result.errors.length).toBe(1);
+    });
+
+    it("should pass through AsyncResult", async () => {
+        const result = await Result.tryAsync(async () => ({ id: 7, lines: [] }), "Handle request").bindParse(orderSchema);
+        expect(result.currentState.id).toBe(7);
+    });
+});
+
+describe('Result.bindParseAsync', () => {
+    it("should await async validation", async () => {
+        const result = await Result.ok("42", "Handle request")
+            .bindParseAsync(asyncSchema<number>(async value => ({ value: Number(value) })), "parse quantity");
+        expect(result.currentState).toBe(42);
+        expect(result.steps.map(s => s.kind)).toEqual(["bindParseAsync"]);
+    });
+
+    it("should pass through AsyncResult", async () => {
+        const result = await Result.tryAsync(async () => ({ id: 7, lines: [] }), "Handle request").bindParseAsync(orderSchema);
+        expect(result.currentState.id).toBe(7);
+    });
+});
@@ -0,0 +1,132 @@
+import { InMemorySpanExporter, InMemoryTracer, RecordedSpan } from '../src/InMemoryTracer';
+import { registerInstrumentation } from '../src/Instrumentation';
+import { Result } from '../src/Result';
+import { SpanInstrumentation, SpanStatusCode } from '../src/SpanInstrumentation';
+import { TestError } from './setup/TestError';
+import { TestWarning } from './setup/TestWarning';
+
+describe('SpanInstrumentation', () => {
+    let exporter: InMemorySpanExporter;
+    let spans: SpanInstrumentation;
+    let unregister: () => void;
+
+    const finished = (name: string): RecordedSpan => exporter.getFinishedSpans().find(span => span.name === name)!;
+
+    beforeEach(() => {
+        exporter = new InMemorySpanExporter();
+        spans = new SpanInstrumentation(new InMemoryTracer(exporter));
+        unregister = registerInstrumentation(spans);
+    });
+
+    afterEach(() => unregister());
+
+    it("should record a span per routine and a child span per step", async () => {
+        Result.try(() => 42, "Primary route").bind(n => n + 1, "increment").okIf(n => n > 0, new TestError("This is a test error"));
+        await spans.flush();
+        const routine = finished("Primary route");
+        expect(finished("increment").parent).toBe(routine);
+        expect(finished("okIf").parent).toBe(routine);
+        expect(finished("increment").attributes).toEqual({ "result.step.kind": "bind", "result.routine": "Primary route", "result.step.outcome": "ran" });
+        expect(routine.status.code).toBe(SpanStatusCode.OK);
+        expect(routine.parent).toBeUndefined();
+    });
+
+    it("should set error status from the errors a step produced", async () => {
+        Result.try(() => 42, "Primary route").okIf(() => false, new TestError("This is a test error"), "guard");
+        await spans.flush();
+        expect(finished("guard").status).toEqual({ code: SpanStatusCode.ERROR, message: "This is a test error" });
+        expect(finished("Primary route").status).toEqual({ code: SpanStatusCode.ERROR, message: "This is a test error" });
+    });
+
+    it("should record reasons as span events", async () => {
+        Result.try(() => { throw new Error("Boom"); }, "Primary route");
+        Result.ok(42, "Warned route").withWarning(new TestWarning("Skipped 12 rows"));
+        await spans.flush();
+        expect(finished("Primary route").events.map(e => [e.name, e.attributes])).toEqual([
+            ["result.reason.error", { "result.reason.type": "ExceptionalError", "result.reason.message": "Boom" }]
+        ]);
+        expect(finished("Warned route").events[0].name).toBe("result.reason.warning");
+    });
+
+    it("should nest contingency routines under the step that spawned them", async () => {
+        await Result.try(() => 42, "Primary route")
+            .failIfAsync(async () => true, new TestError("Cache miss"), {
+                func: next => { (next as Result).bind(() => 43, "fetch"); },
+                routineName: "Contingent route"
+            }, "check cache");
+        await spans.flush();
+        expect(finished("Contingent route").parent).toBe(finished("check cache"));
+        expect(finished("fetch").parent).toBe(finished("Contingent route"));
+        expect(finished("Contingent route").status.code).toBe(SpanStatusCode.OK);
+    });
+
+    it("should end routine spans once their pipeline settles", async () => {
+        Result.try(() => 42, "Primary route").bind(n => n, "step");
+        expect(exporter.getFinishedSpans().map(s => s.name)).toEqual(["step"]);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(exporter.getFinishedSpans().map(s => s.name)).toEqual(["step", "Primary route"]);
+        expect(finished("Primary route").endTime).toBe(finished("step").endTime);
+    });
+
+    it("should not keep settled pipelines around", async () => {
+        for (let i = 0; i < 1000; i++) Result.try(() => i, "Primary route");
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(exporter.getFinishedSpans().length).toBe(1000);
+        await spans.flush();
+    });
+
+    it("should keep routine spans of running pipelines open while flushing", async () => {
+        let release!: () => void;
+        const slow = Result.tryAsync(() => new Promise<number>(resolve => release = () => resolve(42)), "slow").bind(n => n, "after");
+        Result.try(() => 42, "fast");
+        let flushed = false;
+        const flushing = spans.flush().then(() => flushed = true);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(exporter.getFinishedSpans().map(s => s.name)).toEqual(["fast"]);
+        expect(flushed).toBe(false);
+        release();
+        await slow;
+        await flushing;
+        expect(exporter.getFinishedSpans().map(s => s.name)).toEqual(["fast", "after", "slow"]);
+        expect(finished("after").parent).toBe(finished("slow"));
+    });
+
+    it("should nest steps chained onto a settled pipeline under its routine span", async () => {
+        const result = Result.ok(42, "Primary route");
+        await spans.flush();
+        result.bind(n => n, "late");
+        await spans.flush();
+        expect(exporter.getFinishedSpans().map(s => s.name)).toEqual(["Primary route", "late"]);
+        expect(finished("late").parent).toBe(finished("Primary route"));
+    });
+
+    it("should lazily start routine spans for results instrumented after they started", async () => {
+        unregister();
+        Result.ok(42, "Late route").withInstrumentation(spans).bind(n => n, "step");
+        await spans.flush();
+        expect(finished("step").parent).toBe(finished("Late route"));
+    });
+
+    it("should ignore step ends without a matching step start", async () => {
+        spans.onStepEnd(Result.ok(42, "Orphan"), { kind: "bind", routineName: "Orphan", startedAt: 0, endedAt: 0, outcome: "ran", reasons: [] });
+        await spans.flush();
+        expect(exporter.getFinishedSpans().map(s => s.name)).toEqual(["Orphan"]);
+    });
+});
+
+describe('InMemoryTracer', () => {
+    it("should export spans once, when they end", () => {
+        const tracer = new InMemoryTracer();
+        const span = tracer.startSpan("span", { attributes: { kept: 1, dropped: undefined } });
+        expect(span.isRecording).toBe(true);
+        expect(span.attributes).toEqual({ kept: 1 });
+        span.addEvent("event");
+        span.end();
+        span.end(0);
+        expect(span.isRecording).toBe(false);
+        expect(tracer.exporter.getFinishedSpans()).toEqual([span]);
+        expect(span.events[0].attributes).toEqual({});
+        tracer.exporter.reset();
+        expect(tracer.exporter.getFinishedSpans()).toEqual([]);
+    });
+});
@@ -0,0 +1,188 @@
+import { getEventListeners } from 'events';
+import { CancelledError } from '../src/CancelledError';
+import { ErrorBudgetExceededError } from '../src/ErrorBudgetExceededError';
+import { ExceptionalError } from '../src/ExceptionalError';
+import { PromiseRejection } from '../src/PromiseRejection';
+import { Result } from '../src/Result';
+import { TestError } from './setup/TestError';
+
+/** A pipeline resolving with `item * 10` after `item` ms, failing for the items in `failing`; records starts and aborts of running items. */
+function pipeline(failing: number[] = []) {
+    const log = { started: [] as number[], aborted: [] as number[] };
+    const run = (item: number, index: number, signal: AbortSignal) => {
+        let settled = false;
+        log.started.push(item);
+        signal.addEventListener('abort', () => settled || log.aborted.push(item));
+        return Result.tryAsync(() => new Promise<number>(resolve => setTimeout(() => { settled = true; resolve(item * 10); }, item)), `Item ${item}`)
+            .okIf(() => !failing.includes(item), new TestError(`Item ${item} failed`));
+    };
+    return { run, log };
+}
+
+async function collect<T>(results: AsyncIterable<Result<T>>): Promise<Result<T>[]> {
+    const collected: Result<T>[] = [];
+    for await (const result of results) collected.push(result);
+    return collected;
+}
+
+async function* generate(items: number[]) {
+    for (const item of items) yield item;
+}
+
+/** Settles `pending`, running every (fake) timer the pipelines schedule in the meantime. */
+async function settle<T>(pending: PromiseLike<T>): Promise<T> {
+    await jest.runAllTimersAsync();
+    return pending;
+}
+
+beforeEach(() => jest.useFakeTimers());
+afterEach(() => jest.useRealTimers());
+
+describe('Result.stream', () => {
+    it("should yield one result per item, in source order", async () => {
+        const results = await settle(collect(Result.stream([3, 1, 2], pipeline().run, "Import", { concurrency: 3 })));
+        expect(results.map(r => r.routineName)).toEqual(["Item 3", "Item 1", "Item 2"]);
+        expect(results.map(r => r.currentState)).toEqual([30, 10, 20]);
+    });
+
+    it("should yield results as they settle when unordered", async () => {
+        const results = await settle(collect(Result.stream([30, 10, 20], pipeline().run, "Import", { concurrency: 3, ordered: false })));
+        expect(results.map(r => r.currentState)).toEqual([100, 200, 300]);
+    });
+
+    it("should process async iterables", async () => {
+        const results = await settle(collect(Result.stream(generate([1, 2]), pipeline().run, "Import")));
+        expect(results.map(r => r.currentState)).toEqual([10, 20]);
+    });
+
+    it("should run at most `concurrency` items at once, counting unyielded ones, and only while iterated", async () => {
+        const { run, log } = pipeline();
+        const iterator = Result.stream([50, 10, 10, 10], run, "Import", { concurrency: 2 })[Symbol.asyncIterator]();
+        const first = iterator.next();
+        await jest.advanceTimersByTimeAsync(10);
+        expect(log.started).toEqual([50, 10]);
+        await jest.advanceTimersByTimeAsync(40);
+        expect((await first).value!.currentState).toBe(500);
+        expect((await iterator.next()).value!.currentState).toBe(100);
+        expect(log.started).toEqual([50, 10]);
+        await iterator.return!();
+    });
+
+    it("should summarise every item, tagging failures with their index", async () => {
+        const summary = await settle(Result.stream([1, 2, 3, 4], pipeline([2, 4]).run, "Import", { concurrency: 2 }).summary());
+        expect(summary.routineName).toBe("Import");
+        expect(summary.isFailed).toBe(true);
+        expect(summary.currentState).toEqual({ processed: 4, succeeded: 2, failed: 2, stoppedEarly: false });
+        expect(summary.errors.map(e => [e.message, e.getMetadata("itemIndex")])).toEqual([["Item 2 failed", 1], ["Item 4 failed", 3]]);
+    });
+
+    it("should tag copies of errors shared by several items, leaving the caller's instance untouched", async () => {
+        const shared = new TestError("Item failed");
+        const summary = await settle(Result.stream([1, 2, 3], item => Result.ok(item, `Item ${item}`).okIf(() => false, shared), "Import",
+            { concurrency: 3 }).summary());
+        expect(summary.errors.map(e => e.getMetadata("itemIndex"))).toEqual([0, 1, 2]);
+        expect(new Set(summary.errors).size).toBe(3);
+        expect(summary.errors.every(e => e instanceof TestError && e.message === "Item failed")).toBe(true);
+        expect(shared.hasMetadata("itemIndex")).toBe(false);
+    });
+
+    it("should succeed when every item succeeds", async () => {
+        const summary = await settle(Result.stream([], pipeline().run, "Import").summary());
+        expect(summary.isSuccess).toBe(true);
+        expect(summary.currentState).toEqual({ processed: 0, succeeded: 0, failed: 0, stoppedEarly: false });
+    });
+
+    it("should capture items that throw or reject", async () => {
+        const stream = Result.stream([1, 2], item => {
+            if (item === 1) throw new Error("Intentionally thrown exception");
+            return Promise.reject("Down");
+        }, "Import");
+        const results = await settle(collect(stream));
+        expect(results.map(r => r.routineName)).toEqual(["Import #1", "Import #2"]);
+        expect((await stream.summary()).errors.map(e => e.constructor)).toEqual([ExceptionalError, PromiseRejection]);
+    });
+
+    it("should stop once more items failed than `maxFailures`, aborting the running ones", async () => {
+        const { run, log } = pipeline([10, 20]);
+        const stream = Result.stream([10, 20, 500, 300, 400], run, "Import", { concurrency: 3, errorBudget: { maxFailures: 1 } });
+        const results = await settle(collect(stream));
+        const summary = await stream.summary();
+        expect(results.map(r => r.isFailed)).toEqual([true, true]);
+        expect(log.started).toEqual([10, 20, 500, 300]);
+        expect(log.aborted).toEqual([500, 300]);
+        expect(summary.currentState).toEqual({ processed: 2, succeeded: 0, failed: 2, stoppedEarly: true });
+        expect(summary.errors.map(e => e.constructor)).toEqual([TestError, TestError, ErrorBudgetExceededError]);
+        expect(summary.errors[2].message).toBe("Error budget exceeded: 2 of 2 items failed");
+        expect((summary.errors[2] as ErrorBudgetExceededError).failed).toBe(2);
+        expect((summary.errors[2] as ErrorBudgetExceededError).processed).toBe(2);
+    });
+
+    it("should stop once the failure ratio exceeds `maxFailureRatio` after `minItems`", async () => {
+        const summary = await settle(Result.stream([1, 2, 3, 4, 5, 6], pipeline([1, 4, 5]).run, "Import",
+            { errorBudget: { maxFailureRatio: 0.5, minItems: 4 } }).summary());
+        expect(summary.currentState).toEqual({ processed: 5, succeeded: 2, failed: 3, stoppedEarly: true });
+        expect(summary.errors[3].message).toBe("Error budget exceeded: 3 of 5 items failed");
+    });
+
+    it("should close the source when stopping early", async () => {
+        let closed = false;
+        const source = (function* () {
+            try {
+                yield 1;
+                yield 2;
+            }
+            finally {
+                closed = true;
+            }
+        })();
+        const stream = Result.stream(source, pipeline().run, "Import");
+        await settle((async () => { for await (const _ of stream) break; })());
+        expect(closed).toBe(true);
+        expect((await stream.summary()).currentState).toEqual({ processed: 1, succeeded: 1, failed: 0, stoppedEarly: true });
+    });
+
+    it("should record a source that throws or rejects", async () => {
+        const throwing = (function* () {
+            yield 1;
+            throw new Error("Source broken");
+        })();
+        const rejecting = (async function* () {
+            yield 1;
+            throw "Source down";
+        })();
+        const thrown = await settle(Result.stream(throwing, pipeline().run, "Import").summary());
+        const rejected = await settle(Result.stream(rejecting, pipeline().run, "Import").summary());
+        expect(thrown.errors.map(e => e.constructor)).toEqual([ExceptionalError]);
+        expect(rejected.errors.map(e => e.constructor)).toEqual([PromiseRejection]);
+        expect(rejected.currentState).toEqual({ processed: 1, succeeded: 1, failed: 0, stoppedEarly: true });
+    });
+
+    it("should be cancelled through its signal", async () => {
+        const controller = new AbortController();
+        const { run, log } = pipeline();
+        const stream = Result.stream([1, 1000], run, "Import", { signal: controller.signal });
+        const results: Result<number>[] = [];
+        await settle((async () => {
+            for await (const result of stream) {
+                results.push(result);
+                setTimeout(() => controller.abort("Client disconnected"), 10);
+            }
+        })());
+        const summary = await stream.summary();
+        expect(results.length).toBe(1);
+        expect(log.aborted).toEqual([1000]);
+        expect(summary.isCancelled).toBe(true);
+        expect(summary.errors.map(e => e.constructor)).toEqual([CancelledError]);
+        expect(summary.currentState.stoppedEarly).toBe(true);
+    });
+
+    it("should stop listening to its signal once it ends", async () => {
+        const shared = new AbortController();
+        for (let i = 0; i < 20; i++) await settle(Result.stream([1, 2], pipeline().run, "Import", { signal: shared.signal }).summary());
+        expect(getEventListeners(shared.signal, 'abort').length).toBe(0);
+    });
+
+    it("should reject invalid concurrency limits", () => {
+        expect(() => Result.stream([], pipeline().run, "Import", { concurrency: 0 })).toThrow("Concurrency must be at least 1, got 0.");
+    });
+});
@@ -0,0 +1,115 @@
+import { ExceptionalError } from '../src/ExceptionalError';
+import { PromiseRejection } from '../src/PromiseRejection';
+import { Result } from '../src/Result';
+import { groupByPath, readPath, ValidationRule } from '../src/Validation';
+import { ValidationError } from '../src/ValidationError';
+import { TestError } from './setup/TestError';
+
+interface SignUp {
+    email: string;
+    age: number;
+    address: { street: string, zip: string };
+}
+
+const rules: ValidationRule<SignUp>[] = [
+    { path: "email", code: "email", check: (email: string) => email.includes("@"), message: "Email is invalid" },
+    { path: "age", code: "min", check: (age: number) => age >= 18 },
+    { path: "address.street", code: "required", check: (street: string) => street.length > 0 },
+    { path: "address.zip", code: "postal_code", check: (zip: string) => /^\d{5}$/.test(zip) }
+];
+
+const invalid: SignUp = { email: "jane.example.com", age: 16, address: { street: "Main St 1", zip: "12a" } };
+const valid: SignUp = { email: "jane@example.com", age: 30, address: { street: "Main St 1", zip: "12345" } };
+
+describe('Result.validate', () => {
+    it("should record every failing rule", () => {
+        const result = Result.ok(invalid, "should record every failing rule").validate(rules);
+        expect(result.isFailed).toBe(true);
+        expect(result.errors.every(e => e instanceof ValidationError)).toBe(true);
+        const errors = result.errors as ValidationError[];
+        expect(errors.map(e => [e.path, e.code, e.value])).toEqual([["email", "email", "jane.example.com"], ["age", "min", 16], ["address.zip", "postal_code", "12a"]]);
+        expect(errors.map(e => e.message)).toEqual(["Email is invalid", "age failed validation rule 'min'", "address.zip failed validation rule 'postal_code'"]);
+    });
+
+    it("should resume short-circuiting after the block", () => {
+        let ran = false;
+        const result = Result.ok(invalid, "should resume short-circuiting")
+            .validate(rules, "validate sign-up")
+            .bind(() => { ran = true; });
+        expect(ran).toBe(false);
+        expect(result.steps.map(s => [s.kind, s.name, s.outcome, s.reasons.length])).toEqual([["validate", "validate sign-up", "failed", 3], ["bind", undefined, "skipped", 0]]);
+    });
+
+    it("should keep the state when every rule passes", () => {
+        const result = Result.ok(valid, "should keep the state").validate(rules);
+        expect(result.isSuccess).toBe(true);
+        expect(result.currentState).toBe(valid);
+    });
+
+    it("should be skipped when the pipeline already failed", () => {
+        const result = Result.fail<SignUp>(new TestError("This is a test error"), "should be skipped").validate(rules);
+        expect(result.errors.length).toBe(1);
+    });
+
+    it("should validate the whole state with an empty path", () => {
+        const result = Result.ok(valid, "should validate the whole state")
+            .validate([{ path: "", code: "adult_in_zone", check: (s: SignUp) => s.age >= 40 }]);
+        expect((result.errors[0] as ValidationError).value).toBe(valid);
+        expect(result.errors[0].message).toBe("Value failed validation rule 'adult_in_zone'");
+    });
+
+    it("should record exceptions thrown by a rule and run the others", () => {
+        const result = Result.ok(invalid, "should record exceptions").validate([
+            { path: "address.country.code", code: "iso", check: (code: string) => code.length === 2 },
+            rules[1]
+        ]);
+        expect(result.errors.map(e => e.constructor)).toEqual([ExceptionalError, ValidationError]);
+    });
+
+    it("should pass through AsyncResult", async () => {
+        const result = await Result.tryAsync(async () => invalid, "should pass through AsyncResult").validate(rules);
+        expect(result.errors.length).toBe(3);
+    });
+});
+
+describe('Result.validateAsync', () => {
+    it("should await every rule and record failures in rule order", async () => {
+        const taken = new Set(["jane@example.com"]);
+        const result = await Result.ok({ ...valid, age: 12 }, "should await every rule").validateAsync([
+            { path: "email", code: "unique", check: (email: string) => new Promise(resolve => setTimeout(() => resolve(!taken.has(email)), 10)) },
+            { path: "age", code: "min", check: (age: number) => age >= 18 }
+        ]);
+        expect((result.errors as ValidationError[]).map(e => e.code)).toEqual(["unique", "min"]);
+        expect(result.steps.map(s => s.kind)).toEqual(["validateAsync"]);
+    });
+
+    it("should record rejections and exceptions", async () => {
+        const result = await Result.ok(valid, "should record rejections and exceptions").validateAsync([
+            { path: "email", code: "unique", check: () => Promise.reject("Directory down") },
+            { path: "email", code: "domain", check: () => { throw new Error("Intentionally thrown exception"); } }
+        ]);
+        expect(result.errors.map(e => e.constructor)).toEqual([PromiseRejection, ExceptionalError]);
+    });
+
+    it("should pass through AsyncResult", async () => {
+        const result = await Result.tryAsync(async () => invalid, "should pass through AsyncResult").validateAsync(rules);
+        expect(result.errors.length).toBe(3);
+    });
+});
+
+describe('groupByPath', () => {
+    it("should group validation errors by field path and ignore other errors", () => {
+        const result = Result.ok(invalid, "should group validation errors")
+            .validate([...rules, { path: "address.zip", code: "known_zone", check: () => false }]);
+        const groups = groupByPath([...result.errors, new TestError("This is a test error")]);
+        expect(Object.keys(groups)).toEqual(["email", "age", "address.zip"]);
+        expect(groups["address.zip"].map(e => e.code)).toEqual(["postal_code", "known_zone"]);
+    });
+});
+
+describe('readPath', () => {
+    it("should return undefined for missing segments", () => {
+        expect(readPath({ a: null }, "a.b.c")).toBeUndefined();
+        expect(readPath({ items: [{ qty: 2 }] }, "items.0.qty")).toBe(2);
+    });
+});
@@ -1,20 +1,93 @@
 import {
     AError,
     AReason,
+    ASuccess,
+    AWarning,
     ExceptionalError,
     PromiseRejection,
+    RecoveredError,
+    RetryAttemptFailed,
+    RetriesExhaustedError,
+    TimeoutError,
+    CancelledError,
+    ValidationError,
+    SchemaIssueError,
+    ErrorMatch,
+    ErrorBudgetExceededError,
+    ResultStream,
+    CompensationFailedError,
+    CompensationSucceeded,
+    CircuitOpenError,
+    CircuitBreaker,
+    renderTree,
+    groupByPath,
+    Backoffs,
+    captureThrowable,
+    safeStringify,
+    reviveThrowable,
     AResult,
-    Result
+    Result,
+    AsyncResult,
+    FailurePolicies,
+    ReasonRegistry,
+    UnknownReason,
+    UnknownError,
+    UnknownWarning,
+    UnknownSuccess,
+    RESULT_WIRE_VERSION,
+    ProblemDetailsRegistry,
+    sendProblemDetails,
+    PROBLEM_JSON_MEDIA_TYPE,
+    registerInstrumentation,
+    SpanInstrumentation,
+    InMemoryTracer,
+    InMemorySpanExporter,
+    RecordedSpan,
+    SpanStatusCode
 } from '../src/index';
 
 describe('index exports', () => {
     const exportsToCheck = [
         ['AError', AError],
         ['AReason', AReason],
+        ['ASuccess', ASuccess],
+        ['AWarning', AWarning],
         ['ExceptionalError', ExceptionalError],
         ['PromiseRejection', PromiseRejection],
+        ['RecoveredError', RecoveredError],
+        ['RetryAttemptFailed', RetryAttemptFailed],
+        ['RetriesExhaustedError', RetriesExhaustedError],
+        ['TimeoutError', TimeoutError],
+        ['CancelledError', CancelledError],
+        ['ValidationError', ValidationError],
+        ['SchemaIssueError', SchemaIssueError],
+        ['ErrorMatch', ErrorMatch],
+        ['ErrorBudgetExceededError', ErrorBudgetExceededError],
+        ['ResultStream', ResultStream],
+        ['CompensationFailedError', CompensationFailedError],
+        ['CompensationSucceeded', CompensationSucceeded],
+        ['CircuitOpenError', CircuitOpenError],
+        ['CircuitBreaker', CircuitBreaker],
+        ['renderTree', renderTree],
+        ['groupByPath', groupByPath],
+        ['captureThrowable', captureThrowable],
+        ['safeStringify', safeStringify],
+        ['reviveThrowable', reviveThrowable],
         ['AResult', AResult],
-        ['Result', Result]
+        ['Result', Result],
+        ['AsyncResult', AsyncResult],
+        ['ReasonRegistry', ReasonRegistry],
+        ['UnknownReason', UnknownReason],
+        ['UnknownError', UnknownError],
+        ['UnknownWarning', UnknownWarning],
+        ['UnknownSuccess', UnknownSuccess],
+        ['ProblemDetailsRegistry', ProblemDetailsRegistry],
+        ['sendProblemDetails', sendProblemDetails],
+        ['registerInstrumentation', registerInstrumentation],
+        ['SpanInstrumentation', SpanInstrumentation],
+        ['InMemoryTracer', InMemoryTracer],
+        ['InMemorySpanExporter', InMemorySpanExporter],
+        ['RecordedSpan', RecordedSpan]
     ];
 
     it.each(exportsToCheck)(
@@ -22,4 +95,24 @@ describe('index exports', () => {
             expect(typeof exported).toBe('function');
         }
     );
+
+    it('should export FailurePolicies', () => {
+        expect(typeof FailurePolicies.errorsOnly).toBe('function');
+    });
+
+    it('should export Backoffs', () => {
+        expect(typeof Backoffs.fixed).toBe('function');
+    });
+
+    it('should export RESULT_WIRE_VERSION', () => {
+        expect(RESULT_WIRE_VERSION).toBe(2);
+    });
+
+    it('should export PROBLEM_JSON_MEDIA_TYPE', () => {
+        expect(PROBLEM_JSON_MEDIA_TYPE).toBe('application/problem+json');
+    });
+
+    it('should export SpanStatusCode', () => {
+        expect(SpanStatusCode.ERROR).toBe(2);
+    });
 });
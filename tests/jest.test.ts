@@ -0,0 +1,80 @@
+import '../src/jest';
+import { AError } from '../src/AError';
+import { ExceptionalError } from '../src/ExceptionalError';
+import { Result } from '../src/Result';
+import { TestError } from './setup/TestError';
+import { TestWarning } from './setup/TestWarning';
+
+/** Strips the colours of a matcher's failure message. */
+function failureOf(assertion: () => void): string {
+    try {
+        assertion();
+    }
+    catch (e) {
+        return (e as Error).message.replace(/\u001b\[\d+m/g, '');
+    }
+    throw new Error("Expected the assertion to fail");
+}
+
+describe('fluent-results/jest', () => {
+    const failed = Result.ok(42, "Load user").withWarning(new TestWarning("Stale cache")).okIf(() => false, new TestError("User missing"));
+
+    it("should assert the outcome", () => {
+        expect(Result.ok(42, "Load user")).toBeSuccess();
+        expect(failed).toBeFailed();
+        expect(failed).not.toBeSuccess();
+        expect(Result.ok(42, "Load user")).not.toBeFailed();
+    });
+
+    it("should list the routine name and the reasons when failing", () => {
+        const message = failureOf(() => expect(failed).toBeSuccess());
+        expect(message).toContain("Expected: a successful result");
+        expect(message).toContain("Received: Result 'Load user' (failed)\n  ! TestWarning: Stale cache\n  ✗ TestError: User missing");
+        expect(failureOf(() => expect(failed).not.toBeFailed())).toContain("Expected: a successful result");
+        expect(failureOf(() => expect(Result.ok(1, "Empty")).toBeFailed())).toContain("Received: Result 'Empty' (successful)\n  no reasons");
+    });
+
+    it("should compare the state recursively", () => {
+        expect(Result.ok({ id: 7, tags: ["a"] }, "Load user")).toHaveState({ id: 7, tags: ["a"] });
+        expect(Result.ok({ id: 7 }, "Load user")).not.toHaveState({ id: 8 });
+        expect(failureOf(() => expect(Result.ok({ id: 7 }, "Load user")).toHaveState({ id: 8 }))).toContain('-   "id": 8,\n+   "id": 7,');
+        expect(failureOf(() => expect(Result.try(() => { throw new Error("Boom"); }, "Load user")).toHaveState(1))).toContain("Received no state");
+        expect(failureOf(() => expect(Result.ok(1, "Load user")).not.toHaveState(1))).toContain("Received state: 1");
+    });
+
+    it("should find errors by class, message or predicate", () => {
+        expect(failed).toHaveError(TestError);
+        expect(failed).toHaveError(AError);
+        expect(failed).toHaveError("User missing");
+        expect(failed).toHaveError(e => e.message.startsWith("User"));
+        expect(failed).not.toHaveError(ExceptionalError);
+        expect(failureOf(() => expect(failed).toHaveError(ExceptionalError))).toContain("Expected: an error of class ExceptionalError");
+        expect(failureOf(() => expect(failed).toHaveError("Gone"))).toContain('Expected: an error with message "Gone"');
+        expect(failureOf(() => expect(failed).not.toHaveError(() => true))).toContain("Expected: no error matching the predicate");
+    });
+
+    it("should count reasons", () => {
+        expect(failed).toHaveReasonCount(2);
+        expect(failed).not.toHaveReasonCount(1);
+        expect(failureOf(() => expect(failed).toHaveReasonCount(1))).toContain("Expected: 1 reason");
+    });
+
+    it("should find contingencies at any depth", () => {
+        const result = Result.fail(new TestError("Cache miss"), "Load user")
+            .withContingency({
+                func: next => next.bind(() => { throw new Error("Down"); }).withContingency({ func: () => { }, routineName: "Load from backup" }),
+                routineName: "Load from replica"
+            });
+        expect(result).toHaveContingency("Load from replica");
+        expect(result).toHaveContingency("Load from backup");
+        expect(result).not.toHaveContingency("Load from server");
+        expect(failureOf(() => expect(result).toHaveContingency("Load from server"))).toContain("Contingencies: Load from replica, Load from backup");
+        expect(failureOf(() => expect(Result.ok(1, "Load user")).toHaveContingency("Load from server"))).toContain("Contingencies: none");
+    });
+
+    it("should reject values that are not results", async () => {
+        expect(failureOf(() => expect(42).toBeSuccess())).toContain("Expected a Result, received 42.");
+        expect(failureOf(() => expect(42).not.toBeSuccess())).toContain("Expected a Result");
+        expect(failureOf(() => expect(Result.tryAsync(async () => 42, "Load user")).toBeSuccess())).toContain("Did you forget to await an AsyncResult?");
+    });
+});
@@ -0,0 +1,5 @@
+import { ASuccess } from "../../src/ASuccess";
+
+export class TestSuccess extends ASuccess {
+
+}
\ No newline at end of file
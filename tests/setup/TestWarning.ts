@@ -0,0 +1,5 @@
+import { AWarning } from "../../src/AWarning";
+
+export class TestWarning extends AWarning {
+
+}
\ No newline at end of file